@@ -0,0 +1,210 @@
+/**
+ * Content / key-wrap AEAD selection.
+ *
+ * - "xsalsa20poly1305" (default): NaCl secretbox via tweetnacl, 24-byte
+ *   nonces, HKDF and X25519 in pure JS — byte-compatible with pqc-shared
+ * - "aes-256-gcm": Web Crypto AES-256-GCM with 12-byte nonces and Web
+ *   Crypto HKDF-SHA-256, for deployments that require FIPS-approved
+ *   primitives. X25519 runs through Web Crypto where the browser supports
+ *   it, otherwise through tweetnacl (same function, different module)
+ *
+ * The envelope's `aead` field records which one sealed it; the opener
+ * dispatches on it.
+ *
+ * Content sealing can bind associated data (the authenticated header).
+ * AES-GCM takes it as additional data; secretbox has none, so the key is
+ * replaced by keyed BLAKE3 of the associated data. Either way, opening
+ * with different (or no) associated data fails authentication.
+ */
+
+import {
+  nacl,
+  rand24,
+  blake3Keyed,
+  u8,
+  hkdfFlex,
+  secretboxRaw,
+  secretboxOpenRaw,
+  ENVELOPE_AEAD,
+} from "./primitives.js";
+import type { ContentSuite } from "./types.js";
+
+/** `aead` value of Web Crypto AES-256-GCM envelopes */
+export const AES_256_GCM_AEAD = "aes-256-gcm";
+
+/** PKCS#8 prefix for a raw X25519 private key (RFC 8410) */
+const X25519_PKCS8_PREFIX = Uint8Array.from([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x04, 0x22, 0x04, 0x20,
+]);
+
+/**
+ * True if an envelope `aead` value is one this client can open.
+ */
+export function isSupportedAead(aead: string): aead is ContentSuite {
+  return aead === ENVELOPE_AEAD || aead === AES_256_GCM_AEAD;
+}
+
+/**
+ * The AEAD an envelope records, narrowed for aeadOpen().
+ *
+ * @throws If this client doesn't implement it
+ */
+export function envelopeAead(aead: unknown): ContentSuite {
+  if (typeof aead !== "string" || !isSupportedAead(aead)) {
+    throw new Error(`Unsupported envelope AEAD "${String(aead)}"`);
+  }
+  return aead;
+}
+
+/**
+ * Fresh nonce for the AEAD (24 bytes for XSalsa20, 12 for GCM).
+ */
+export function aeadNonce(aead: ContentSuite): Uint8Array {
+  return aead === AES_256_GCM_AEAD ? nacl.randomBytes(12) : rand24();
+}
+
+/**
+ * Encrypt and authenticate.
+ *
+ * @param ad - Associated data to bind (authenticated, not encrypted)
+ */
+export async function aeadSeal(
+  aead: ContentSuite,
+  key: Uint8Array,
+  plaintext: Uint8Array,
+  nonce: Uint8Array,
+  ad?: Uint8Array
+): Promise<Uint8Array> {
+  if (aead !== AES_256_GCM_AEAD) return secretboxRaw(secretboxKey(key, ad), plaintext, nonce);
+  const aesKey = await crypto.subtle.importKey("raw", buf(key), "AES-GCM", false, ["encrypt"]);
+  return new Uint8Array(
+    await crypto.subtle.encrypt(gcmParams(nonce, ad), aesKey, buf(plaintext))
+  );
+}
+
+/**
+ * Decrypt and verify.
+ *
+ * @param ad - Associated data the ciphertext was sealed with
+ * @returns Plaintext, or null if authentication fails
+ */
+export async function aeadOpen(
+  aead: ContentSuite,
+  key: Uint8Array,
+  ciphertext: Uint8Array,
+  nonce: Uint8Array,
+  ad?: Uint8Array
+): Promise<Uint8Array | null> {
+  if (aead !== AES_256_GCM_AEAD) return secretboxOpenRaw(secretboxKey(key, ad), ciphertext, nonce);
+  const aesKey = await crypto.subtle.importKey("raw", buf(key), "AES-GCM", false, ["decrypt"]);
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(gcmParams(nonce, ad), aesKey, buf(ciphertext))
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * HKDF-SHA-256 to a 32-byte key-wrapping key (same output either way;
+ * the GCM suite derives it inside Web Crypto).
+ */
+export async function deriveWrapKey(
+  aead: ContentSuite,
+  ikm: Uint8Array,
+  salt: string,
+  info: string
+): Promise<Uint8Array> {
+  if (aead !== AES_256_GCM_AEAD) return hkdfFlex(ikm, salt, info);
+  const base = await crypto.subtle.importKey("raw", buf(ikm), "HKDF", false, ["deriveBits"]);
+  return new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "HKDF", hash: "SHA-256", salt: buf(u8(salt)), info: buf(u8(info)) },
+      base,
+      256
+    )
+  );
+}
+
+/**
+ * Ephemeral X25519 agreement with a recipient public key.
+ *
+ * @returns Ephemeral public key and the shared secret
+ */
+export async function x25519Ephemeral(
+  aead: ContentSuite,
+  recipientPub: Uint8Array
+): Promise<{ epk: Uint8Array; shared: Uint8Array }> {
+  if (aead === AES_256_GCM_AEAD && (await webCryptoX25519())) {
+    const eph = (await crypto.subtle.generateKey({ name: "X25519" }, true, [
+      "deriveBits",
+    ])) as CryptoKeyPair;
+    const peer = await crypto.subtle.importKey("raw", buf(recipientPub), { name: "X25519" }, false, []);
+    return {
+      epk: new Uint8Array(await crypto.subtle.exportKey("raw", eph.publicKey)),
+      shared: new Uint8Array(
+        await crypto.subtle.deriveBits({ name: "X25519", public: peer }, eph.privateKey, 256)
+      ),
+    };
+  }
+  const eph = nacl.box.keyPair();
+  return { epk: eph.publicKey, shared: nacl.scalarMult(eph.secretKey, recipientPub) };
+}
+
+/**
+ * X25519 agreement with a static secret key (opener side).
+ */
+export async function x25519Shared(
+  aead: ContentSuite,
+  secretKey: Uint8Array,
+  peerPub: Uint8Array
+): Promise<Uint8Array> {
+  if (aead === AES_256_GCM_AEAD && (await webCryptoX25519())) {
+    const pkcs8 = new Uint8Array(X25519_PKCS8_PREFIX.length + secretKey.length);
+    pkcs8.set(X25519_PKCS8_PREFIX, 0);
+    pkcs8.set(secretKey, X25519_PKCS8_PREFIX.length);
+    const priv = await crypto.subtle.importKey("pkcs8", pkcs8, { name: "X25519" }, false, [
+      "deriveBits",
+    ]);
+    const peer = await crypto.subtle.importKey("raw", buf(peerPub), { name: "X25519" }, false, []);
+    return new Uint8Array(
+      await crypto.subtle.deriveBits({ name: "X25519", public: peer }, priv, 256)
+    );
+  }
+  return nacl.scalarMult(secretKey, peerPub);
+}
+
+/** Secretbox key bound to the associated data, if any */
+function secretboxKey(key: Uint8Array, ad: Uint8Array | undefined): Uint8Array {
+  return ad ? blake3Keyed(key, ad) : key;
+}
+
+function gcmParams(nonce: Uint8Array, ad: Uint8Array | undefined): AesGcmParams {
+  return ad
+    ? { name: "AES-GCM", iv: buf(nonce), additionalData: buf(ad) }
+    : { name: "AES-GCM", iv: buf(nonce) };
+}
+
+/** Cached Web Crypto X25519 support (probed once) */
+let x25519Support: Promise<boolean> | null = null;
+
+function webCryptoX25519(): Promise<boolean> {
+  x25519Support ??= (async () => {
+    try {
+      await crypto.subtle.generateKey({ name: "X25519" }, false, ["deriveBits"]);
+      return true;
+    } catch {
+      return false;
+    }
+  })();
+  return x25519Support;
+}
+
+/**
+ * Bytes as a Web Crypto BufferSource. Newer DOM typings want an
+ * ArrayBuffer-backed view; ours always are (no SharedArrayBuffer).
+ */
+function buf(bytes: Uint8Array): BufferSource {
+  return bytes as BufferSource;
+}
@@ -0,0 +1,300 @@
+/**
+ * Encrypted file attachments.
+ *
+ * Each File/Blob is encrypted in fixed-size chunks, with the envelope's
+ * AEAD (NaCl secretbox, or AES-256-GCM with `suite`), under its own random
+ * content key and uploaded to a blob endpoint. The key and
+ * the BLAKE3 hash of the encrypted chunks go into the main payload as an
+ * AttachmentRef, so the key is wrapped by the envelope's own X25519 /
+ * hybrid key wrap and never leaves the client in the clear.
+ *
+ * Chunk nonces are STREAM-style: noncePrefix ‖ index(u64 BE) ‖ last(1),
+ * with a 15-byte prefix for XSalsa20 (24-byte nonces) and 3 bytes for GCM
+ * (12-byte nonces), so chunks can't be reordered, dropped or truncated
+ * without failing authentication.
+ *
+ * Blob endpoint protocol (resumable):
+ *   GET  {endpoint}/{uploadId}              → { received: number[] } (404: none)
+ *   PUT  {endpoint}/{uploadId}/{index}      ← encrypted chunk bytes
+ *   POST {endpoint}/{uploadId}/complete     ← { hash, chunks, size }
+ */
+
+import {
+  b64,
+  fromB64,
+  toHex,
+  rand32,
+  blake3,
+  blake3Hasher,
+  ENVELOPE_AEAD,
+} from "./primitives.js";
+import { aeadSeal, aeadOpen, envelopeAead, AES_256_GCM_AEAD } from "./aead.js";
+import { createIdempotencyKey } from "./id.js";
+import type { AttachmentConfig, AttachmentProgress, AttachmentRef, ContentSuite } from "./types.js";
+
+/**
+ * Plaintext field carrying attachment references (keys included).
+ * Stripped from the payload by the opener.
+ */
+export const ATTACHMENTS_FIELD = "$attachments";
+
+const DEFAULT_CHUNK_SIZE = 256 * 1024; // 256KB
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024; // 25MB
+const DEFAULT_MAX_COUNT = 10;
+/** File name and MIME type lengths the size bound allows per ref */
+const BOUND_NAME_BYTES = 255;
+const BOUND_TYPE_BYTES = 255;
+/** Chunk index (u64) and last-chunk flag after the nonce prefix */
+const NONCE_COUNTER_BYTES = 9;
+/** Poly1305 and GCM tags are both 16 bytes */
+const AEAD_TAG_BYTES = 16;
+
+/** Per-blob encryption parameters, kept so a retry resumes the same upload */
+interface PreparedAttachment {
+  uploadId: string;
+  key: Uint8Array;
+  noncePrefix: Uint8Array;
+  chunkSize: number;
+  aead: ContentSuite;
+}
+
+const prepared = new WeakMap<Blob, PreparedAttachment>();
+
+/**
+ * Resolve attachment limits with defaults.
+ *
+ * @internal
+ */
+export function attachmentLimits(
+  config: AttachmentConfig
+): { chunkSize: number; maxBytes: number; maxCount: number } {
+  return {
+    chunkSize: config.chunkSize ?? DEFAULT_CHUNK_SIZE,
+    maxBytes: config.maxBytes ?? DEFAULT_MAX_BYTES,
+    maxCount: config.maxCount ?? DEFAULT_MAX_COUNT,
+  };
+}
+
+/**
+ * Reference with placeholder hash, upload id and keys of the final
+ * lengths, so the payload can be size-checked before anything is uploaded.
+ *
+ * @internal
+ */
+export function placeholderAttachmentRef(
+  file: Blob,
+  config: AttachmentConfig,
+  aead: ContentSuite = ENVELOPE_AEAD
+): AttachmentRef {
+  return attachmentRef(file, attachmentLimits(config).chunkSize, {
+    hash: "0".repeat(64),
+    uploadId: "0".repeat(64),
+    key: new Uint8Array(32),
+    noncePrefix: new Uint8Array(noncePrefixBytes(aead)),
+    aead,
+  });
+}
+
+/**
+ * Upper bound on the plaintext bytes `maxCount` refs add (separator
+ * included), for names and MIME types up to 255 bytes.
+ *
+ * @internal Used by IntakeSchema.toIntakeConfig to widen the size bound
+ */
+export function attachmentsOverheadBytes(
+  config: AttachmentConfig,
+  aead: ContentSuite = ENVELOPE_AEAD
+): number {
+  const { chunkSize, maxBytes, maxCount } = attachmentLimits(config);
+  const largest: AttachmentRef = {
+    ...placeholderAttachmentRef(new Blob(), config, aead),
+    name: "x".repeat(BOUND_NAME_BYTES),
+    type: "x".repeat(BOUND_TYPE_BYTES),
+    size: maxBytes,
+    chunks: Math.max(1, Math.ceil(maxBytes / chunkSize)),
+  };
+  // `,"$attachments":[ref,ref,…]`
+  const empty = JSON.stringify({ [ATTACHMENTS_FIELD]: [] }).length - 2 + 1;
+  return empty + maxCount * (JSON.stringify(largest).length + 1) - 1;
+}
+
+/**
+ * Encrypt and upload one attachment, resuming a previous upload of the
+ * same Blob (same key, same ciphertext) by skipping chunks the endpoint
+ * already has.
+ *
+ * @param file - File or Blob to attach
+ * @param config - Blob endpoint and chunking
+ * @param opts - Attachment index (for progress events), abort signal and
+ *   the envelope's AEAD (default: xsalsa20poly1305)
+ * @returns Reference to put in the encrypted payload
+ * @throws On HTTP or network failure (the same Blob can be retried)
+ */
+export async function uploadAttachment(
+  file: Blob,
+  config: AttachmentConfig,
+  opts: { index?: number; signal?: AbortSignal; aead?: ContentSuite } = {}
+): Promise<AttachmentRef> {
+  const { chunkSize } = attachmentLimits(config);
+  const aead = opts.aead ?? ENVELOPE_AEAD;
+  let state = prepared.get(file);
+  if (!state || state.chunkSize !== chunkSize || state.aead !== aead) {
+    state = {
+      uploadId: createIdempotencyKey(),
+      key: rand32(),
+      noncePrefix: globalThis.crypto.getRandomValues(new Uint8Array(noncePrefixBytes(aead))),
+      chunkSize,
+      aead,
+    };
+    prepared.set(file, state);
+  }
+
+  const base = `${config.endpoint.replace(/\/+$/, "")}/${state.uploadId}`;
+  const received = await fetchReceivedChunks(base, opts.signal);
+  const chunks = Math.max(1, Math.ceil(file.size / chunkSize));
+  const name = "name" in file && typeof file.name === "string" ? file.name : undefined;
+  const hasher = blake3Hasher();
+  let encryptedSize = 0;
+
+  const report = (uploadedBytes: number) => {
+    const progress: AttachmentProgress = {
+      index: opts.index ?? 0,
+      ...(name !== undefined ? { name } : {}),
+      uploadedBytes,
+      totalBytes: file.size,
+    };
+    config.onProgress?.(progress);
+  };
+
+  for (let i = 0; i < chunks; i++) {
+    const start = i * chunkSize;
+    const end = Math.min(start + chunkSize, file.size);
+    const plaintext = new Uint8Array(await file.slice(start, end).arrayBuffer());
+    const ciphertext = await aeadSeal(
+      aead,
+      state.key,
+      plaintext,
+      chunkNonce(state.noncePrefix, i, i === chunks - 1)
+    );
+    hasher.update(ciphertext);
+    encryptedSize += ciphertext.length;
+
+    if (!received.has(i)) {
+      await send(`${base}/${i}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: ciphertext as BodyInit,
+        signal: opts.signal,
+      });
+    }
+    report(end);
+  }
+
+  const hash = toHex(hasher.digest());
+  await send(`${base}/complete`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ hash, chunks, size: encryptedSize }),
+    signal: opts.signal,
+  });
+
+  return attachmentRef(file, chunkSize, { hash, ...state });
+}
+
+/**
+ * Decrypt a downloaded attachment (admin/offline side).
+ *
+ * @param ref - Reference from OpenedIntake.attachments
+ * @param ciphertext - Encrypted chunks as stored by the blob endpoint, concatenated
+ * @returns Plaintext file bytes
+ * @throws If the hash doesn't match, the AEAD is unsupported or any chunk
+ *   fails authentication
+ */
+export async function openAttachment(ref: AttachmentRef, ciphertext: Uint8Array): Promise<Uint8Array> {
+  if (toHex(blake3(ciphertext)) !== ref.hash) {
+    throw new Error(`Attachment hash mismatch for ${ref.uploadId}`);
+  }
+  // Refs without `aead` predate the field and are secretbox
+  const aead = envelopeAead(ref.aead ?? ENVELOPE_AEAD);
+  const key = fromB64(ref.key);
+  const noncePrefix = fromB64(ref.noncePrefix);
+  if (noncePrefix.length !== noncePrefixBytes(aead)) {
+    throw new Error(`Attachment nonce prefix has the wrong length for ${aead}`);
+  }
+  const encryptedChunkSize = ref.chunkSize + AEAD_TAG_BYTES;
+  const plaintext = new Uint8Array(ref.size);
+
+  let offset = 0;
+  for (let i = 0; i < ref.chunks; i++) {
+    const chunk = ciphertext.subarray(i * encryptedChunkSize, (i + 1) * encryptedChunkSize);
+    const opened = await aeadOpen(aead, key, chunk, chunkNonce(noncePrefix, i, i === ref.chunks - 1));
+    if (!opened || offset + opened.length > ref.size) {
+      throw new Error(`Attachment chunk ${i} failed to decrypt`);
+    }
+    plaintext.set(opened, offset);
+    offset += opened.length;
+  }
+  if (offset !== ref.size || ciphertext.length !== ref.size + ref.chunks * AEAD_TAG_BYTES) {
+    throw new Error("Attachment length mismatch");
+  }
+  return plaintext;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+function attachmentRef(
+  file: Blob,
+  chunkSize: number,
+  sealed: { hash: string; uploadId: string; key: Uint8Array; noncePrefix: Uint8Array; aead: ContentSuite }
+): AttachmentRef {
+  const name = "name" in file && typeof file.name === "string" ? file.name : undefined;
+  return {
+    hash: sealed.hash,
+    uploadId: sealed.uploadId,
+    ...(name !== undefined ? { name } : {}),
+    ...(file.type ? { type: file.type } : {}),
+    size: file.size,
+    chunkSize,
+    chunks: Math.max(1, Math.ceil(file.size / chunkSize)),
+    aead: sealed.aead,
+    key: b64(sealed.key),
+    noncePrefix: b64(sealed.noncePrefix),
+  };
+}
+
+function noncePrefixBytes(aead: ContentSuite): number {
+  return (aead === AES_256_GCM_AEAD ? 12 : 24) - NONCE_COUNTER_BYTES;
+}
+
+function chunkNonce(prefix: Uint8Array, index: number, last: boolean): Uint8Array {
+  const nonce = new Uint8Array(prefix.length + NONCE_COUNTER_BYTES);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setBigUint64(prefix.length, BigInt(index), false);
+  nonce[nonce.length - 1] = last ? 1 : 0;
+  return nonce;
+}
+
+async function fetchReceivedChunks(base: string, signal: AbortSignal | undefined): Promise<Set<number>> {
+  const response = await send(base, { headers: { Accept: "application/json" }, signal }, [404]);
+  if (response.status === 404) return new Set();
+  const body = (await response.json().catch(() => null)) as { received?: unknown } | null;
+  return new Set(
+    Array.isArray(body?.received) ? body.received.filter((i): i is number => Number.isInteger(i)) : []
+  );
+}
+
+async function send(url: string, init: RequestInit, allowStatus: number[] = []): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (err) {
+    if (init.signal?.aborted) throw err;
+    throw new Error(`Attachment upload failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!response.ok && !allowStatus.includes(response.status)) {
+    throw new Error(`Attachment upload failed (HTTP ${response.status})`);
+  }
+  return response;
+}
@@ -0,0 +1,149 @@
+/**
+ * Behavioral bot signals.
+ *
+ * Privacy-safe by construction: only the time from form render to submit,
+ * interaction *counts* (no keys, no coordinates, no timings between
+ * events) and honeypot fields are collected. The score is computed
+ * locally; when it is suspicious the submission is dropped behind a
+ * realistic fake success so bots can't tell they were filtered.
+ */
+
+import type { BotDetectionConfig, BotScore, BotSignalReason, BotSignals } from "./types.js";
+
+/**
+ * Plaintext field carrying the bot score (botDetection.includeScore).
+ * Encrypted with the payload so operators can triage; stripped by the opener.
+ */
+export const BOT_SCORE_FIELD = "$bot";
+
+const DEFAULT_MIN_ELAPSED_MS = 3000;
+const DEFAULT_THRESHOLD = 0.7;
+const DEFAULT_FAKE_RESPONSE_MS = { min: 300, max: 1200 };
+
+/** Score contributed by each reason (summed, capped at 1) */
+const REASON_WEIGHTS: Record<BotSignalReason, number> = {
+  honeypot: 1,
+  too_fast: 0.5,
+  no_interaction: 0.4,
+};
+
+const KEY_EVENTS = ["keydown"] as const;
+const POINTER_EVENTS = ["pointerdown", "pointermove", "touchstart"] as const;
+
+/**
+ * Collects signals for one form. Create it when the form renders.
+ */
+export interface BotSignalCollector {
+  /**
+   * Signals so far, for SubmitOptions.botSignals.
+   *
+   * @param honeypots - Current values of the form's honeypot fields
+   */
+  snapshot(honeypots?: Array<string | null | undefined>): BotSignals;
+  /** Remove event listeners */
+  dispose(): void;
+}
+
+/**
+ * Start collecting bot signals for a form.
+ *
+ * @param opts - `target` to listen on (default: document), `now` clock
+ * @returns Collector; call snapshot() on submit
+ */
+export function createBotSignalCollector(
+  opts: { target?: EventTarget; now?: () => number } = {}
+): BotSignalCollector {
+  const now = opts.now ?? Date.now;
+  const renderedAt = now();
+  const target = opts.target ?? (typeof document !== "undefined" ? document : undefined);
+  let keyEvents = 0;
+  let pointerEvents = 0;
+
+  const onKey = () => {
+    keyEvents++;
+  };
+  const onPointer = () => {
+    pointerEvents++;
+  };
+  const listenerOpts = { capture: true, passive: true };
+  for (const type of KEY_EVENTS) target?.addEventListener(type, onKey, listenerOpts);
+  for (const type of POINTER_EVENTS) target?.addEventListener(type, onPointer, listenerOpts);
+
+  return {
+    snapshot(honeypots) {
+      return {
+        elapsedMs: now() - renderedAt,
+        keyEvents,
+        pointerEvents,
+        ...(honeypots ? { honeypots: [...honeypots] } : {}),
+      };
+    },
+    dispose() {
+      for (const type of KEY_EVENTS) target?.removeEventListener(type, onKey, listenerOpts);
+      for (const type of POINTER_EVENTS) target?.removeEventListener(type, onPointer, listenerOpts);
+    },
+  };
+}
+
+/**
+ * Score bot signals.
+ *
+ * - honeypot: any honeypot field is filled (1.0 — always suspicious)
+ * - too_fast: submitted sooner than `minElapsedMs` after render (0.5)
+ * - no_interaction: no keyboard or pointer events at all (0.4)
+ *
+ * Signals that weren't collected don't count against the submission.
+ *
+ * @param signals - Collected signals
+ * @param config - Threshold and timing settings
+ * @returns Score in [0, 1], reasons, and whether it meets the threshold
+ */
+export function scoreBotSignals(
+  signals: BotSignals,
+  config: BotDetectionConfig = {}
+): BotScore {
+  const reasons: BotSignalReason[] = [];
+
+  if (signals.honeypots?.some((value) => typeof value === "string" && value !== "")) {
+    reasons.push("honeypot");
+  }
+  if (
+    signals.elapsedMs !== undefined &&
+    signals.elapsedMs < (config.minElapsedMs ?? DEFAULT_MIN_ELAPSED_MS)
+  ) {
+    reasons.push("too_fast");
+  }
+  if (signals.keyEvents === 0 && signals.pointerEvents === 0) {
+    reasons.push("no_interaction");
+  }
+
+  const total = reasons.reduce((sum, reason) => sum + REASON_WEIGHTS[reason], 0);
+  const score = Math.round(Math.min(1, total) * 100) / 100;
+  return {
+    score,
+    reasons,
+    suspicious: score >= (config.threshold ?? DEFAULT_THRESHOLD),
+  };
+}
+
+/**
+ * Upper bound on the plaintext bytes the bot score adds (separator included).
+ *
+ * @internal Used by IntakeSchema.toIntakeConfig to widen the size bound
+ */
+export function botScoreOverheadBytes(): number {
+  // Scores have at most two decimals; every reason at once is the longest list
+  const largest = { score: 0.99, reasons: Object.keys(REASON_WEIGHTS) };
+  return JSON.stringify({ [BOT_SCORE_FIELD]: largest }).length - 2 + 1;
+}
+
+/**
+ * Wait like a real round trip would before answering a filtered bot.
+ *
+ * @internal
+ */
+export function fakeResponseDelay(config: BotDetectionConfig = {}): Promise<void> {
+  const { min, max } = config.fakeResponseMs ?? DEFAULT_FAKE_RESPONSE_MS;
+  const ms = min + Math.random() * Math.max(0, max - min);
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
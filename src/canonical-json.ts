@@ -0,0 +1,84 @@
+/**
+ * Canonical JSON serialization (RFC 8785, JSON Canonicalization Scheme).
+ *
+ * Produces byte-identical output for equal JSON values regardless of
+ * property insertion order, so request IDs can be reproduced by non-JS
+ * servers and tools:
+ * - Object keys sorted by UTF-16 code units
+ * - Numbers formatted per ECMAScript Number.prototype.toString (as JCS requires)
+ * - No insignificant whitespace
+ *
+ * Values with no JSON representation (undefined, NaN, ±Infinity, functions,
+ * symbols, bigints, lone surrogates, non-plain objects) are rejected rather
+ * than silently dropped or coerced the way JSON.stringify does.
+ */
+
+/**
+ * Serialize a JSON value in RFC 8785 canonical form.
+ *
+ * @param value - Plain JSON value (object, array, string, finite number, boolean, null)
+ * @returns Canonical JSON string
+ * @throws Error if the value contains anything without a JSON representation
+ */
+export function canonicalJson(value: unknown): string {
+  return serialize(value, "$");
+}
+
+function serialize(value: unknown, path: string): string {
+  if (value === null) return "null";
+
+  switch (typeof value) {
+    case "boolean":
+      return value ? "true" : "false";
+    case "number":
+      if (!Number.isFinite(value)) {
+        throw new Error(`canonicalJson: non-finite number at ${path}`);
+      }
+      // ES number serialization is what JCS specifies (-0 becomes "0")
+      return JSON.stringify(value);
+    case "string":
+      assertWellFormed(value, path);
+      return JSON.stringify(value);
+    case "object":
+      break;
+    default:
+      throw new Error(`canonicalJson: unsupported ${typeof value} at ${path}`);
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item, i) => serialize(item, `${path}[${i}]`));
+    return `[${items.join(",")}]`;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) {
+    throw new Error(`canonicalJson: non-plain object at ${path}`);
+  }
+
+  const obj = value as Record<string, unknown>;
+  // Default sort compares UTF-16 code units, as RFC 8785 §3.2.3 requires
+  const keys = Object.keys(obj).sort();
+  const members = keys.map((key) => {
+    assertWellFormed(key, `${path} (key)`);
+    return `${JSON.stringify(key)}:${serialize(obj[key], `${path}.${key}`)}`;
+  });
+  return `{${members.join(",")}}`;
+}
+
+/** Reject lone surrogates (not representable in I-JSON / UTF-8). */
+function assertWellFormed(s: string, path: string): void {
+  for (let i = 0; i < s.length; i++) {
+    const c = s.charCodeAt(i);
+    if (c >= 0xd800 && c <= 0xdbff) {
+      const next = s.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        i++;
+        continue;
+      }
+      throw new Error(`canonicalJson: lone surrogate at ${path}`);
+    }
+    if (c >= 0xdc00 && c <= 0xdfff) {
+      throw new Error(`canonicalJson: lone surrogate at ${path}`);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Encryption worker entry (loaded by encrypt.ts via new URL(..., import.meta.url)).
+ *
+ * Receives an EncryptRequest, encrypts it and posts the envelope, or the
+ * error message so the main thread can fall back to X25519-only or fail
+ * in strict mode, exactly as for in-thread encryption.
+ */
+
+import { encryptPlaintext } from "./encrypt.js";
+import type { EncryptRequest, EncryptResponse } from "./encrypt.js";
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<EncryptRequest>) => void) | null;
+  postMessage(message: EncryptResponse): void;
+};
+
+scope.onmessage = async (event) => {
+  try {
+    scope.postMessage({ type: "done", envelope: await encryptPlaintext(event.data) });
+  } catch (err) {
+    scope.postMessage({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
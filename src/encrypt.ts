@@ -0,0 +1,209 @@
+/**
+ * Envelope encryption, in-thread or in a dedicated worker.
+ *
+ * submitSecureIntake() builds an EncryptRequest — plaintext bytes, the
+ * target keys, the hybrid engine (or false), the AEAD and the header
+ * fields to bind — and runs it
+ * with encryptPlaintext(). With `encryptInWorker`, the request goes to a
+ * module worker (`encrypt-worker.js`, next to the bundle) instead, so
+ * Kyber WASM instantiation and large payloads don't block the UI. Where
+ * workers are unavailable (Node, SSR, CSP worker-src, the CommonJS build)
+ * or don't answer in time, it runs in-thread.
+ *
+ * The worker is only created at submit time, and only loads pqc-shared
+ * when asked for that engine — same lazy boundary as the main thread.
+ */
+
+import {
+  rand32,
+  b64,
+  toHex,
+  fromHex,
+  ENVELOPE_VERSION,
+  ENVELOPE_AEAD,
+  X25519_ONLY_SUITE,
+} from "./primitives.js";
+import { aeadNonce, aeadSeal, deriveWrapKey, x25519Ephemeral } from "./aead.js";
+import { encryptMlKemHybrid, hybridEncrypt } from "./mlkem.js";
+import type { HybridEngine } from "./mlkem.js";
+import { headerAssociatedData } from "./header.js";
+import type { EnvelopeHeaderFields } from "./header.js";
+import { encryptMultiRecipient } from "./multi-recipient.js";
+import { encryptThreshold } from "./threshold.js";
+import type {
+  ContentSuite,
+  HybridPublicKeys,
+  MultiRecipientPublicKeys,
+  OmniMultiRecipientV1,
+  OmniThresholdV1,
+  ThresholdPublicKeys,
+} from "./types.js";
+import type { OmniHybridV1 } from "@omnituum/envelope-registry";
+
+/** A worker that hasn't replied by then is terminated; the job runs in-thread */
+const WORKER_TIMEOUT_MS = 15_000;
+
+/**
+ * One encryption job (worker message)
+ *
+ * @internal
+ */
+export interface EncryptRequest {
+  plaintext: Uint8Array;
+  target:
+    | { keys: HybridPublicKeys; kid?: string }
+    | { recipients: MultiRecipientPublicKeys["recipients"] }
+    | { threshold: ThresholdPublicKeys };
+  /** Hybrid engine, or false for X25519-only */
+  hybrid: HybridEngine | false;
+  aead: ContentSuite;
+  /** Authenticated header, bound as associated data (authenticatedHeader configs) */
+  header?: EnvelopeHeaderFields;
+}
+
+/**
+ * Worker reply
+ *
+ * @internal
+ */
+export type EncryptResponse =
+  | { type: "done"; envelope: OmniHybridV1 | OmniMultiRecipientV1 | OmniThresholdV1 }
+  | { type: "error"; message: string };
+
+/**
+ * Run an encryption job on the current thread.
+ *
+ * @internal Also the worker's message handler
+ * @throws If the hybrid engine is unavailable or encryption fails
+ */
+export function encryptPlaintext(
+  request: EncryptRequest
+): Promise<OmniHybridV1 | OmniMultiRecipientV1 | OmniThresholdV1> {
+  const { plaintext, target, hybrid, aead, header } = request;
+  if ("threshold" in target) {
+    return encryptThreshold(plaintext, target.threshold, hybrid, aead, header);
+  }
+  if ("recipients" in target) {
+    return encryptMultiRecipient(plaintext, target.recipients, hybrid, aead, header);
+  }
+  if (!hybrid) return encryptX25519Only(plaintext, target.keys.x25519PubHex, aead, header);
+  if (hybrid === "ml-kem") return encryptMlKemHybrid(plaintext, target.keys, aead, header);
+  // pqc-shared seals the content itself, with no associated data: to bind
+  // the header, seal it here and wrap only the content key with pqc-shared
+  // (a one-recipient envelope)
+  return header
+    ? encryptMultiRecipient(
+        plaintext,
+        [{ ...target.keys, kid: target.kid ?? "" }],
+        hybrid,
+        aead,
+        header
+      )
+    : hybridEncrypt(plaintext, target.keys, hybrid, aead);
+}
+
+/**
+ * Run an encryption job in a module worker, falling back to the current
+ * thread if the worker can't be created, its script fails to load or it
+ * doesn't reply within WORKER_TIMEOUT_MS.
+ *
+ * The plaintext is copied and the copy's buffer transferred, so the
+ * caller's bytes stay usable (e.g. for an X25519 retry after a failed
+ * hybrid attempt).
+ *
+ * @internal
+ * @throws If encryption fails (in either place)
+ */
+export async function encryptOffThread(
+  request: EncryptRequest
+): Promise<OmniHybridV1 | OmniMultiRecipientV1 | OmniThresholdV1> {
+  const response = await encryptInWorker(request);
+  if (!response) return encryptPlaintext(request);
+  if (response.type === "error") throw new Error(response.message);
+  return response.envelope;
+}
+
+/** Resolves null if workers are unavailable, so the caller runs in-thread. */
+function encryptInWorker(request: EncryptRequest): Promise<EncryptResponse | null> {
+  // The CommonJS build has no import.meta.url to find encrypt-worker.js
+  // next to the bundle (only the ESM build ships a usable worker)
+  const bundleUrl: string | undefined = import.meta.url;
+  if (typeof Worker === "undefined" || !bundleUrl) return Promise.resolve(null);
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL("./encrypt-worker.js", bundleUrl), { type: "module" });
+  } catch {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    const finish = (response: EncryptResponse | null) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(response);
+    };
+    // Stuck worker (e.g. its script never loads) - run in-thread
+    const timer = setTimeout(() => finish(null), WORKER_TIMEOUT_MS);
+    worker.onmessage = (event: MessageEvent<EncryptResponse>) => finish(event.data);
+    worker.onerror = (event) => {
+      // Worker script failed to load (e.g. CSP worker-src) - run in-thread
+      event.preventDefault();
+      finish(null);
+    };
+    const plaintext = request.plaintext.slice();
+    worker.postMessage({ ...request, plaintext }, [plaintext.buffer]);
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// X25519-ONLY ENCRYPTION (pure JS, no WASM, no pqc-shared)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Encrypt using X25519 ECDH only (classical, no WASM required).
+ * Produces an envelope structurally compatible with OmniHybridV1
+ * but with empty Kyber fields and suite set to "x25519".
+ *
+ * @param aead - Content and key-wrap AEAD (default NaCl secretbox)
+ * @param header - Header fields to bind as associated data
+ * @internal Exported for golden-vector tests
+ */
+export async function encryptX25519Only(
+  plaintext: Uint8Array,
+  recipientX25519PubHex: string,
+  aead: ContentSuite = ENVELOPE_AEAD,
+  header?: EnvelopeHeaderFields
+): Promise<OmniHybridV1> {
+  // 1. Generate random content key
+  const CK = rand32();
+
+  // 2. Encrypt content with content key (secretbox or AES-256-GCM)
+  const contentNonce = aeadNonce(aead);
+  const ad = header && headerAssociatedData(header, X25519_ONLY_SUITE);
+  const ciphertext = await aeadSeal(aead, CK, plaintext, contentNonce, ad);
+
+  // 3. Wrap content key with X25519 ECDH
+  const { epk, shared } = await x25519Ephemeral(aead, fromHex(recipientX25519PubHex));
+  const kek = await deriveWrapKey(aead, shared, "omnituum/x25519", "wrap-ck");
+  const wrapNonce = aeadNonce(aead);
+  const wrapped = await aeadSeal(aead, kek, CK, wrapNonce);
+
+  return {
+    v: ENVELOPE_VERSION,
+    suite: X25519_ONLY_SUITE,
+    aead,
+    x25519Epk: toHex(epk),
+    x25519Wrap: {
+      nonce: b64(wrapNonce),
+      wrapped: b64(wrapped),
+    },
+    kyberKemCt: "",
+    kyberWrap: { nonce: "", wrapped: "" },
+    contentNonce: b64(contentNonce),
+    ciphertext: b64(ciphertext),
+    meta: {
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
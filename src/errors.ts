@@ -0,0 +1,79 @@
+/**
+ * Submission failure construction.
+ *
+ * Every failure path in the client goes through submitFailure() so the
+ * `retryable` flag for a code is defined in exactly one place.
+ */
+
+import type { SubmitErrorCode, SubmitFailure } from "./types.js";
+
+/** Failure variant for a given code */
+export type SubmitFailureFor<C extends SubmitErrorCode> = Extract<
+  SubmitFailure,
+  { code: C }
+>;
+
+/** Code-specific fields (plus optional `error` message) */
+export type SubmitFailureDetails<C extends SubmitErrorCode> = Omit<
+  SubmitFailureFor<C>,
+  "ok" | "code" | "retryable"
+>;
+
+const RETRYABLE: { [C in SubmitErrorCode]: SubmitFailureFor<C>["retryable"] } = {
+  rate_limited: true,
+  plaintext_too_large: false,
+  envelope_too_large: false,
+  pqc_required_unavailable: false,
+  public_key_unavailable: false,
+  public_key_invalid: false,
+  keyset_unavailable: true,
+  keyset_invalid: false,
+  challenge_unavailable: true,
+  attachment_too_large: false,
+  attachment_upload_failed: true,
+  crypto_unavailable: false,
+  invalid_payload: false,
+  client_error: false,
+  server_error: true,
+  network_error: true,
+  aborted: false,
+  invalid_response: false,
+  internal_error: false,
+};
+
+/**
+ * Build a typed submission failure.
+ *
+ * @param code - Failure code
+ * @param details - Code-specific fields and optional human message
+ */
+export function submitFailure<C extends SubmitErrorCode>(
+  code: C,
+  details: SubmitFailureDetails<C>
+): SubmitFailureFor<C> {
+  return {
+    ok: false,
+    code,
+    retryable: RETRYABLE[code],
+    ...details,
+  } as SubmitFailureFor<C>;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns undefined if absent or unparseable.
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now = Date.now()
+): number | undefined {
+  if (!header) return undefined;
+  // Numeric values are never dates (Date.parse("-5") is year -5)
+  if (/^\s*[-+]?\d+(\.\d+)?\s*$/.test(header)) {
+    const seconds = Number(header);
+    return seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+  }
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
@@ -0,0 +1,116 @@
+/**
+ * Public key fingerprints.
+ *
+ * A fingerprint is BLAKE3 over the raw X25519 public key (32 bytes)
+ * followed by the raw Kyber public key, as 64-char lowercase hex. Pin it
+ * in IntakeConfig.publicKeyFingerprint to detect swapped or tampered keys,
+ * or render it with getKeyFingerprint() for people to compare.
+ */
+
+import { blake3, fromB64, fromHex, toHex } from "./primitives.js";
+import { selectPublicKey } from "./keyring.js";
+import { FINGERPRINT_WORDS } from "./wordlist.js";
+import type {
+  HybridPublicKeys,
+  PublicKeyEntry,
+  PublicKeyring,
+} from "./types.js";
+
+/**
+ * Human-comparable renderings of one key fingerprint.
+ * All are derived from the same BLAKE3 digest, so any one of them can be
+ * compared against the offline tooling's output.
+ */
+export interface KeyFingerprint {
+  /** Key id, if the keys came from a keyring entry */
+  kid?: string;
+  /** 64-char lowercase hex (same value as computePublicKeyFingerprint) */
+  hex: string;
+  /** Upper-case hex in 16 groups of 4, e.g. "3F9A 12BC …" */
+  hexGroups: string;
+  /** 30 digits in 6 groups of 5, e.g. "04721 88310 …" */
+  safetyNumber: string;
+  /** 8 words from the first 8 digest bytes */
+  words: string[];
+}
+
+/**
+ * Compute the fingerprint of an org public key pair.
+ *
+ * @param keys - X25519 + Kyber public keys
+ * @returns 64-char lowercase hex
+ */
+export function computePublicKeyFingerprint(keys: HybridPublicKeys): string {
+  return toHex(fingerprintDigest(keys));
+}
+
+/**
+ * Fingerprint of the key a form encrypts to, for "verify encryption key"
+ * disclosures and audits.
+ *
+ * For a keyring, the key currently selected for encryption is used.
+ *
+ * @param publicKeys - Key pair or keyring (as in IntakeConfig.publicKeys)
+ * @throws If a keyring has no usable key
+ */
+export function getKeyFingerprint(
+  publicKeys: HybridPublicKeys | PublicKeyEntry | PublicKeyring
+): KeyFingerprint {
+  const selected = selectPublicKey(publicKeys);
+  if (!selected) {
+    throw new Error("Keyring has no usable key to fingerprint");
+  }
+
+  const digest = fingerprintDigest(selected.keys);
+  const hex = toHex(digest);
+
+  return {
+    ...(selected.kid !== undefined ? { kid: selected.kid } : {}),
+    hex,
+    hexGroups: hex.toUpperCase().match(/.{4}/g)!.join(" "),
+    safetyNumber: safetyNumberOf(digest),
+    words: Array.from(digest.subarray(0, 8), (byte) => FINGERPRINT_WORDS[byte]),
+  };
+}
+
+function fingerprintDigest(keys: HybridPublicKeys): Uint8Array {
+  const x25519 = fromHex(keys.x25519PubHex);
+  const kyber = keys.kyberPubB64 ? fromB64(keys.kyberPubB64) : new Uint8Array(0);
+  const joined = new Uint8Array(x25519.length + kyber.length);
+  joined.set(x25519, 0);
+  joined.set(kyber, x25519.length);
+  return blake3(joined);
+}
+
+/** Six 5-digit groups, each from 5 digest bytes (40 bits) mod 100000. */
+function safetyNumberOf(digest: Uint8Array): string {
+  const groups: string[] = [];
+  for (let i = 0; i < 6; i++) {
+    let value = 0;
+    for (let j = 0; j < 5; j++) {
+      value = value * 256 + digest[i * 5 + j];
+    }
+    groups.push(String(value % 100000).padStart(5, "0"));
+  }
+  return groups.join(" ");
+}
+
+/**
+ * True if `keys` matches one of the pinned fingerprints.
+ *
+ * @param keys - Keys about to be used for encryption
+ * @param pinned - IntakeConfig.publicKeyFingerprint
+ */
+export function matchesPinnedFingerprint(
+  keys: HybridPublicKeys,
+  pinned: string | string[]
+): boolean {
+  const fingerprint = computePublicKeyFingerprint(keys);
+  const allowed = Array.isArray(pinned) ? pinned : [pinned];
+  return allowed.some((fp) => normalizeFingerprint(fp) === fingerprint);
+}
+
+/** Accept upper-case and separator-formatted fingerprints. */
+export function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/[\s:-]/g, "").toLowerCase();
+}
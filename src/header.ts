@@ -0,0 +1,74 @@
+/**
+ * Authenticated envelope header.
+ *
+ * The wire fields (`v`, `id`, `pqcUsed`) sit next to the ciphertext in
+ * plain JSON, so a server or proxy could swap ids between envelopes or
+ * flip `pqcUsed` unnoticed. The header — version, id, pqcUsed, exact
+ * suite id, form kind, client timestamp and a random nonce — is bound to
+ * the content AEAD as associated data, in canonical JSON (RFC 8785). It is
+ * not encrypted: `v`, `id` and `pqcUsed` are already on the wire, the rest
+ * travels as `hdr`, and the suite is read from the inner envelope. The
+ * opener rebuilds the header from those fields, so any edit in transit
+ * fails decryption.
+ */
+
+import { canonicalJson } from "./canonical-json.js";
+import { nacl, u8, toHex, X25519_ONLY_SUITE } from "./primitives.js";
+import type { IntakeEnvelopeHeader, IntakeWireEnvelope } from "./types.js";
+
+/**
+ * Header fields fixed before encryption; the encryptor adds the suite
+ * (and pqcUsed) it actually used.
+ *
+ * @internal Part of the encrypt worker message
+ */
+export type EnvelopeHeaderFields = Omit<IntakeEnvelopeHeader, "suite" | "pqcUsed">;
+
+/**
+ * Build the header fields for one envelope.
+ *
+ * @param v - Wire protocol version
+ * @param id - Request ID
+ * @param form - Form kind ("" if unknown)
+ */
+export function createEnvelopeHeader(v: string, id: string, form: string): EnvelopeHeaderFields {
+  return {
+    v,
+    id,
+    form,
+    ts: Date.now(),
+    nonce: toHex(nacl.randomBytes(16)),
+  };
+}
+
+/**
+ * Associated data for an envelope encrypted with `suite` (encrypt side).
+ *
+ * @internal
+ */
+export function headerAssociatedData(fields: EnvelopeHeaderFields, suite: string): Uint8Array {
+  return encodeEnvelopeHeader({ ...fields, suite, pqcUsed: suite !== X25519_ONLY_SUITE });
+}
+
+/**
+ * Canonical encoding of a header, as bound to the content AEAD.
+ */
+export function encodeEnvelopeHeader(header: IntakeEnvelopeHeader): Uint8Array {
+  const { v, id, pqcUsed, suite, form, ts, nonce } = header;
+  return u8(canonicalJson({ v, id, pqcUsed, suite, form, ts, nonce }));
+}
+
+/**
+ * Rebuild the header from a wire envelope (opener side).
+ *
+ * @param suite - Suite id of the inner envelope
+ * @returns The header, or undefined if the envelope has no `hdr`
+ */
+export function wireEnvelopeHeader(
+  wire: IntakeWireEnvelope,
+  suite: string
+): IntakeEnvelopeHeader | undefined {
+  if (!wire.hdr) return undefined;
+  const { form, ts, nonce } = wire.hdr;
+  return { v: wire.v, id: wire.id, pqcUsed: wire.pqcUsed, suite, form, ts, nonce };
+}
@@ -59,3 +59,20 @@ export async function tryHybridEncryptLazy(
   }
   return mod.hybridEncrypt(plaintext, publicKeys);
 }
+
+/**
+ * Attempt hybrid decryption via lazy-loaded pqc-shared (admin/offline side).
+ * Throws if the module can't be loaded or decryption fails.
+ */
+export async function tryHybridDecryptLazy(
+  envelope: OmniHybridV1,
+  secretKeys: { x25519SecHex: string; kyberSecB64: string }
+): Promise<string> {
+  const mod = await tryLoadHybrid();
+  if (!mod) {
+    throw new Error(
+      "Hybrid decryption unavailable: pqc-shared module failed to load"
+    );
+  }
+  return mod.hybridDecryptToString(envelope, secretKeys);
+}
@@ -1,8 +1,35 @@
 /**
  * Deterministic ID generation
+ *
+ * IDs are BLAKE3 over the serialized payload — unkeyed by default, or
+ * keyed (requestIdKey) so that low-entropy submissions can't be confirmed
+ * by hashing guesses. Either way the same payload always yields the same
+ * ID, which is what retry deduplication relies on.
+ */
+
+import { blake3, blake3Keyed, blake3DeriveKey, fromHex, rand32, toHex } from "./primitives.js";
+import { canonicalJson } from "./canonical-json.js";
+import type { PayloadSerialization, RequestIdKey } from "./types.js";
+
+/**
+ * Plaintext field carrying a random request ID (idStrategy "random").
+ * Committing the ID inside the ciphertext lets the opener verify it.
  */
+export const RANDOM_ID_FIELD = "$id";
 
-import { blake3 } from "./primitives.js";
+/** derive_key context for salt-based request ID keys */
+const SALT_KEY_CONTEXT = "omnituum.intake 2026 request-id salt key v1";
+
+/**
+ * Options for request ID generation.
+ * Must match the IntakeConfig used for submission.
+ */
+export interface RequestIdOptions {
+  /** Payload serialization (default: "json") */
+  serialization?: PayloadSerialization;
+  /** Keyed-ID key (default: unkeyed) */
+  requestIdKey?: RequestIdKey;
+}
 
 /**
  * Convert Uint8Array to hex string
@@ -13,18 +40,88 @@ export function bytesToHex(bytes: Uint8Array): string {
     .join("");
 }
 
+/**
+ * Serialize a canonicalized payload to the exact string that is both
+ * hashed for the request ID and encrypted for transmission.
+ *
+ * - "json": JSON.stringify (depends on property insertion order)
+ * - "jcs": RFC 8785 canonical JSON (order-independent, reproducible off-JS)
+ */
+export function serializeCanonicalPayload(
+  canonicalized: Record<string, unknown>,
+  serialization: PayloadSerialization = "json"
+): string {
+  return serialization === "jcs"
+    ? canonicalJson(canonicalized)
+    : JSON.stringify(canonicalized);
+}
+
 /**
  * Generate deterministic request ID from canonicalized payload.
- * Uses BLAKE3 hash of JSON-serialized payload.
+ * Uses BLAKE3 hash of the serialized payload.
  *
  * @param canonicalized - Object returned by config.canonicalize()
+ * @param opts - ID options (must match the submitting IntakeConfig)
  * @returns 64-character hex string (BLAKE3 hash)
  */
 export function generateRequestId(
-  canonicalized: Record<string, unknown>
+  canonicalized: Record<string, unknown>,
+  opts: RequestIdOptions = {}
 ): string {
-  const json = JSON.stringify(canonicalized);
-  const encoder = new TextEncoder();
-  const hash = blake3(encoder.encode(json));
+  return hashSerializedPayload(
+    serializeCanonicalPayload(canonicalized, opts.serialization),
+    opts.requestIdKey
+  );
+}
+
+/**
+ * Generate a random idempotency key / request ID (64-char hex).
+ * Use one per logical submission with `idStrategy: "random"`.
+ */
+export function createIdempotencyKey(): string {
+  return toHex(rand32());
+}
+
+/**
+ * Hash an already-serialized payload (e.g., a decrypted plaintext).
+ *
+ * @internal
+ */
+export function hashSerializedPayload(
+  serialized: string,
+  requestIdKey?: RequestIdKey
+): string {
+  const data = new TextEncoder().encode(serialized);
+  const hash = requestIdKey
+    ? blake3Keyed(resolveRequestIdKey(requestIdKey), data)
+    : blake3(data);
   return bytesToHex(hash);
 }
+
+/**
+ * Plaintext bytes the random ID adds (separator included).
+ *
+ * @internal Used by IntakeSchema.toIntakeConfig to widen the size bound
+ */
+export function randomIdOverheadBytes(): number {
+  // `,"$id":"<64 hex>"`
+  return JSON.stringify({ [RANDOM_ID_FIELD]: "0".repeat(64) }).length - 2 + 1;
+}
+
+/**
+ * Turn a RequestIdKey into the 32-byte BLAKE3 key.
+ *
+ * @internal
+ */
+export function resolveRequestIdKey(requestIdKey: RequestIdKey): Uint8Array {
+  if ("dedupKeyHex" in requestIdKey) {
+    if (!/^[0-9a-f]{64}$/i.test(requestIdKey.dedupKeyHex)) {
+      throw new Error("requestIdKey.dedupKeyHex must be 32 bytes (64 hex chars)");
+    }
+    return fromHex(requestIdKey.dedupKeyHex);
+  }
+  if (typeof requestIdKey.salt !== "string" || requestIdKey.salt.length === 0) {
+    throw new Error("requestIdKey.salt must be a non-empty string");
+  }
+  return blake3DeriveKey(SALT_KEY_CONTEXT, new TextEncoder().encode(requestIdKey.salt));
+}
@@ -10,6 +10,65 @@
 // Core submission
 export { submitSecureIntake, encryptX25519Only } from "./submit.js";
 
+// Storage adapters (pending-submission tracking)
+export {
+  sessionStorageAdapter,
+  localStorageAdapter,
+  createMemoryStorage,
+} from "./storage.js";
+
+// Pending submissions (retry tracking)
+export {
+  listPendingSubmissions,
+  getPendingSubmission,
+} from "./pending.js";
+export type { PendingStoreOptions } from "./pending.js";
+
+// Offline queue
+export { flushQueuedSubmissions, armOfflineQueue } from "./queue.js";
+export type { FlushOptions } from "./queue.js";
+
+// Key rotation (keyring selection)
+export { selectPublicKey } from "./keyring.js";
+export type { SelectedPublicKey } from "./keyring.js";
+
+// Signed keysets (org public keys fetched at runtime)
+export {
+  resolvePublicKeys,
+  verifyKeyset,
+  signKeyset,
+  resetKeysetCache,
+} from "./keyset.js";
+
+// Config validation and key fingerprints
+export { validateIntakeConfig } from "./validate.js";
+export type {
+  ConfigIssue,
+  ConfigIssueCode,
+  ConfigValidationResult,
+} from "./validate.js";
+export {
+  computePublicKeyFingerprint,
+  getKeyFingerprint,
+} from "./fingerprint.js";
+export type { KeyFingerprint } from "./fingerprint.js";
+
+// Bot signals
+export { createBotSignalCollector, scoreBotSignals } from "./botsignals.js";
+export type { BotSignalCollector } from "./botsignals.js";
+
+// Attachments
+export { uploadAttachment } from "./attachments.js";
+
+// Proof of work
+export { solveProofOfWork, verifyProofOfWork } from "./pow.js";
+
+// Pure-JS ML-KEM suite ids (config.mlKem)
+export { ML_KEM_768_SUITE, ML_KEM_1024_SUITE } from "./mlkem.js";
+
+// AES-256-GCM suite aead id (config.suite)
+export { AES_256_GCM_AEAD } from "./aead.js";
+
 // Crypto capability
 export {
   checkCryptoCapability,
@@ -17,7 +76,11 @@ export {
 } from "./capability.js";
 
 // ID generation (for consumers who need to compute IDs client-side)
-export { generateRequestId, bytesToHex } from "./id.js";
+export { generateRequestId, createIdempotencyKey, bytesToHex } from "./id.js";
+export type { RequestIdOptions } from "./id.js";
+
+// Canonical JSON (RFC 8785) for reproducing IDs outside this package
+export { canonicalJson } from "./canonical-json.js";
 
 // Normalization utilities
 export {
@@ -26,6 +89,23 @@ export {
   normalizeStringArray,
 } from "./normalize.js";
 
+// Declarative schemas (generate canonicalize + validation)
+export { defineIntakeSchema, field } from "./schema.js";
+export type {
+  IntakeSchema,
+  IntakeSchemaDefinition,
+  FieldDef,
+  FieldKind,
+  FieldSpec,
+  FieldOptions,
+  StringSetOptions,
+  FieldError,
+  FieldErrorCode,
+  SchemaInput,
+  SchemaOutput,
+  SchemaValidationResult,
+} from "./schema.js";
+
 // Rate limiting (for testing/advanced use)
 export { resetRateLimit } from "./ratelimit.js";
 
@@ -34,12 +114,49 @@ export type {
   IntakeConfig,
   SubmitOptions,
   SubmitResult,
+  SubmitFailure,
+  SubmitErrorCode,
   CryptoCapability,
   RateLimitConfig,
   PendingSubmission,
+  IntakeStorage,
   HybridPublicKeys,
+  PublicKeyEntry,
+  PublicKeyring,
+  PublicKeyStatus,
+  KyberParameterSet,
+  ContentSuite,
+  KeysetSource,
+  SignedKeyset,
   DowngradeEvent,
   DowngradeReason,
+  IntakeWireEnvelope,
+  IntakeEnvelopeHeader,
+  PayloadSerialization,
+  RequestIdKey,
+  IdStrategy,
+  RetryPolicy,
+  ProofOfWorkConfig,
+  ProofOfWorkProgress,
+  ProofOfWorkToken,
+  BotSignals,
+  BotSignalReason,
+  BotScore,
+  BotDetectionConfig,
+  AttachmentConfig,
+  AttachmentProgress,
+  AttachmentRef,
+  PaddingPolicy,
+  MultiRecipientPublicKeys,
+  RecipientPublicKeys,
+  OmniMultiRecipientV1,
+  RecipientWrap,
+  ThresholdPublicKeys,
+  OmniThresholdV1,
+  ThresholdShareWrap,
+  ThresholdShare,
+  OfflineQueueConfig,
+  QueuedSubmissionOutcome,
 } from "./types.js";
 
 export type { OmniHybridV1 } from "@omnituum/envelope-registry";
@@ -0,0 +1,112 @@
+/**
+ * Public key rotation (keyring selection).
+ *
+ * IntakeConfig.publicKeys may be a single key pair or a keyring of
+ * entries with a key id (`kid`), a validity window and a status. The
+ * submitting client picks one entry and records its `kid` on the wire
+ * envelope, so decrypt tooling goes straight to the matching secret key.
+ */
+
+import type {
+  HybridPublicKeys,
+  PublicKeyEntry,
+  PublicKeyring,
+} from "./types.js";
+
+/**
+ * Key chosen for one submission
+ */
+export interface SelectedPublicKey {
+  /** Key id to record on the wire envelope (undefined for a bare key pair) */
+  kid?: string;
+  keys: HybridPublicKeys;
+}
+
+/**
+ * Pick the public key to encrypt to.
+ *
+ * Among entries that are not retired or revoked, the newest key whose
+ * validity window contains `now` wins. If none is valid, a key that
+ * expired (or starts) within `graceMs` is used instead, so a keyring
+ * published slightly late — or a client clock slightly off — doesn't
+ * block submissions during a rotation.
+ *
+ * @param publicKeys - IntakeConfig.publicKeys
+ * @param now - Current time in ms (default: Date.now())
+ * @returns Selected key, or null if the keyring has no usable key
+ */
+export function selectPublicKey(
+  publicKeys: HybridPublicKeys | PublicKeyEntry | PublicKeyring,
+  now: number = Date.now()
+): SelectedPublicKey | null {
+  if (!isKeyring(publicKeys)) {
+    return "kid" in publicKeys && typeof publicKeys.kid === "string"
+      ? selectPublicKey({ keys: [publicKeys] }, now)
+      : { keys: pickKeys(publicKeys) };
+  }
+
+  const graceMs = publicKeys.graceMs ?? 0;
+  const usable = publicKeys.keys.filter(
+    (entry) => (entry.status ?? "active") === "active"
+  );
+
+  // Newest currently valid key
+  const valid = usable
+    .filter((entry) => distanceFromWindow(entry, now) === 0)
+    .sort((a, b) => startOf(b) - startOf(a));
+  if (valid.length > 0) return toSelected(valid[0]);
+
+  // Grace overlap: closest key just outside its window
+  const nearby = usable
+    .map((entry) => ({ entry, distance: distanceFromWindow(entry, now) }))
+    .filter(({ distance }) => distance <= graceMs)
+    .sort((a, b) => a.distance - b.distance);
+  return nearby.length > 0 ? toSelected(nearby[0].entry) : null;
+}
+
+/**
+ * True if `publicKeys` is a keyring rather than a single key.
+ */
+export function isKeyring(
+  publicKeys: HybridPublicKeys | PublicKeyEntry | PublicKeyring
+): publicKeys is PublicKeyring {
+  return Array.isArray((publicKeys as PublicKeyring).keys);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Validity windows
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Milliseconds `now` lies outside the entry's window (0 if inside). */
+function distanceFromWindow(entry: PublicKeyEntry, now: number): number {
+  const start = startOf(entry);
+  const end = endOf(entry);
+  if (now < start) return start - now;
+  if (now >= end) return now - end;
+  return 0;
+}
+
+function startOf(entry: PublicKeyEntry): number {
+  return toMs(entry.notBefore) ?? -Infinity;
+}
+
+function endOf(entry: PublicKeyEntry): number {
+  return toMs(entry.notAfter) ?? Infinity;
+}
+
+function toMs(value: string | number | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const ms = typeof value === "number" ? value : Date.parse(value);
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid keyring date: ${String(value)}`);
+  }
+  return ms;
+}
+
+function toSelected(entry: PublicKeyEntry): SelectedPublicKey {
+  return { kid: entry.kid, keys: pickKeys(entry) };
+}
+
+function pickKeys(keys: HybridPublicKeys): HybridPublicKeys {
+  return { x25519PubHex: keys.x25519PubHex, kyberPubB64: keys.kyberPubB64 };
+}
@@ -0,0 +1,251 @@
+/**
+ * Signed keyset documents (org public keys fetched at runtime).
+ *
+ * Instead of baking public keys into every frontend build, the org
+ * publishes a keyring at a well-known URL, signed with an Ed25519 key
+ * that clients pin as their trust anchor. A keyset that fails
+ * verification is never used — there is no fallback to unverified keys.
+ *
+ * Document shape:
+ *
+ *   {
+ *     "keyset": { "v": "omnituum.keyset.v1", "expiresAt": "...", "keys": [...] },
+ *     "signature": "<base64 Ed25519 signature over canonicalJson(keyset)>"
+ *   }
+ */
+
+import { nacl, b64, fromB64, fromHex, u8 } from "./primitives.js";
+import { canonicalJson } from "./canonical-json.js";
+import type {
+  KeysetSource,
+  PublicKeyEntry,
+  PublicKeyring,
+  SignedKeyset,
+} from "./types.js";
+
+export const KEYSET_VERSION = "omnituum.keyset.v1";
+
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Keyset load outcome (internal; resolvePublicKeys throws instead)
+ *
+ * `unavailable` — fetch or HTTP failure, worth retrying later
+ * `invalid` — signature, expiry or format check failed
+ */
+export type KeysetLoadResult =
+  | { ok: true; keyring: PublicKeyring }
+  | { ok: false; reason: "unavailable" | "invalid"; error: string };
+
+interface CachedKeyset {
+  keyring: PublicKeyring;
+  expiresAt: number;
+}
+
+// Verified keysets per URL + trust anchor (never unverified data)
+const cache = new Map<string, CachedKeyset>();
+const inFlight = new Map<string, Promise<KeysetLoadResult>>();
+
+/**
+ * Fetch, verify and cache an org keyset.
+ *
+ * @param source - Keyset URL and pinned Ed25519 signing key(s)
+ * @returns Verified keyring, suitable for IntakeConfig.publicKeys
+ * @throws If the keyset can't be fetched or fails verification
+ */
+export async function resolvePublicKeys(
+  source: KeysetSource
+): Promise<PublicKeyring> {
+  const result = await loadKeyset(source);
+  if (!result.ok) throw new Error(result.error);
+  return result.keyring;
+}
+
+/**
+ * Load a keyset (cached), reporting failures as a result.
+ *
+ * @internal Used by submitSecureIntake to map failures to error codes
+ */
+export function loadKeyset(source: KeysetSource): Promise<KeysetLoadResult> {
+  const anchors = trustAnchorsOf(source);
+  const cacheKey = `${source.keysetUrl}\n${anchors.join(",")}`;
+
+  const cached = cache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return Promise.resolve({ ok: true, keyring: cached.keyring });
+  }
+
+  const active = inFlight.get(cacheKey);
+  if (active) return active;
+
+  const load = fetchAndVerify(source, anchors)
+    .then((result) => {
+      if (result.ok) {
+        cache.set(cacheKey, {
+          keyring: result.keyring,
+          expiresAt: result.expiresAt,
+        });
+        return { ok: true as const, keyring: result.keyring };
+      }
+      return result;
+    })
+    .finally(() => {
+      inFlight.delete(cacheKey);
+    });
+  inFlight.set(cacheKey, load);
+  return load;
+}
+
+/**
+ * Verify a signed keyset document against pinned signing keys.
+ *
+ * @param document - Parsed keyset document
+ * @param trustAnchor - Ed25519 public key(s), hex
+ * @param now - Current time in ms (default: Date.now())
+ * @returns Verified keyring
+ * @throws If the signature, expiry or format check fails
+ */
+export function verifyKeyset(
+  document: unknown,
+  trustAnchor: string | string[],
+  now: number = Date.now()
+): PublicKeyring {
+  const anchors = Array.isArray(trustAnchor) ? trustAnchor : [trustAnchor];
+  const doc = document as Partial<SignedKeyset> | null;
+  if (!doc || typeof doc !== "object" || !doc.keyset || typeof doc.signature !== "string") {
+    throw new Error("Invalid keyset: expected { keyset, signature }");
+  }
+
+  let signature: Uint8Array;
+  try {
+    signature = fromB64(doc.signature);
+  } catch {
+    throw new Error("Invalid keyset: signature is not base64");
+  }
+  const message = u8(canonicalJson(doc.keyset));
+  const trusted = anchors.some((anchor) => {
+    const publicKey = fromHex(anchor);
+    return (
+      publicKey.length === nacl.sign.publicKeyLength &&
+      signature.length === nacl.sign.signatureLength &&
+      nacl.sign.detached.verify(message, signature, publicKey)
+    );
+  });
+  if (!trusted) {
+    throw new Error("Keyset signature verification failed");
+  }
+
+  const keyset = doc.keyset;
+  if (keyset.v !== KEYSET_VERSION) {
+    throw new Error(`Invalid keyset: unsupported version "${String(keyset.v)}"`);
+  }
+  const expiresAt = Date.parse(keyset.expiresAt);
+  if (Number.isNaN(expiresAt)) {
+    throw new Error("Invalid keyset: missing or malformed expiresAt");
+  }
+  if (expiresAt <= now) {
+    throw new Error(`Keyset expired at ${keyset.expiresAt}`);
+  }
+  if (!Array.isArray(keyset.keys) || !keyset.keys.every(isKeyEntry)) {
+    throw new Error("Invalid keyset: malformed keys");
+  }
+
+  return {
+    keys: keyset.keys,
+    ...(typeof keyset.graceMs === "number" ? { graceMs: keyset.graceMs } : {}),
+  };
+}
+
+/**
+ * Sign a keyset (org tooling; the result is what clients fetch).
+ *
+ * @param keyset - Keyset body
+ * @param signingSecretKeyHex - Ed25519 secret key (64 bytes, hex)
+ */
+export function signKeyset(
+  keyset: SignedKeyset["keyset"],
+  signingSecretKeyHex: string
+): SignedKeyset {
+  const signature = nacl.sign.detached(
+    u8(canonicalJson(keyset)),
+    fromHex(signingSecretKeyHex)
+  );
+  return { keyset, signature: b64(signature) };
+}
+
+/**
+ * True if IntakeConfig.publicKeys is a keyset source rather than keys.
+ */
+export function isKeysetSource(publicKeys: unknown): publicKeys is KeysetSource {
+  return typeof (publicKeys as KeysetSource | null)?.keysetUrl === "string";
+}
+
+/**
+ * Clear cached keysets (for testing).
+ */
+export function resetKeysetCache(): void {
+  cache.clear();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Fetching
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function fetchAndVerify(
+  source: KeysetSource,
+  anchors: string[]
+): Promise<
+  | { ok: true; keyring: PublicKeyring; expiresAt: number }
+  | { ok: false; reason: "unavailable" | "invalid"; error: string }
+> {
+  let body: string;
+  try {
+    const response = await fetch(source.keysetUrl, {
+      headers: { Accept: "application/json" },
+    });
+    if (!response.ok) {
+      return { ok: false, reason: "unavailable", error: `Keyset fetch failed (HTTP ${response.status})` };
+    }
+    body = await response.text();
+  } catch {
+    return { ok: false, reason: "unavailable", error: "Keyset fetch failed (network error)" };
+  }
+
+  // A body that arrived but doesn't parse is unverifiable, not unavailable
+  let document: unknown;
+  try {
+    document = JSON.parse(body);
+  } catch {
+    return { ok: false, reason: "invalid", error: "Invalid keyset: body is not valid JSON" };
+  }
+
+  try {
+    const now = Date.now();
+    const keyring = verifyKeyset(document, anchors, now);
+    const keysetExpiry = Date.parse((document as SignedKeyset).keyset.expiresAt);
+    const expiresAt = Math.min(keysetExpiry, now + (source.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS));
+    return { ok: true, keyring, expiresAt };
+  } catch (err) {
+    return {
+      ok: false,
+      reason: "invalid",
+      error: err instanceof Error ? err.message : "Keyset verification failed",
+    };
+  }
+}
+
+function trustAnchorsOf(source: KeysetSource): string[] {
+  const anchors = Array.isArray(source.trustAnchor) ? source.trustAnchor : [source.trustAnchor];
+  return anchors.map((anchor) => anchor.toLowerCase());
+}
+
+function isKeyEntry(entry: unknown): entry is PublicKeyEntry {
+  const e = entry as Partial<PublicKeyEntry> | null;
+  return (
+    !!e &&
+    typeof e.kid === "string" &&
+    typeof e.x25519PubHex === "string" &&
+    /^[0-9a-f]{64}$/i.test(e.x25519PubHex) &&
+    typeof e.kyberPubB64 === "string"
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * Pure-JS ML-KEM (FIPS 203) hybrid suite.
+ *
+ * pqc-shared's Kyber arrives as WASM, which strict CSP blocks. This suite
+ * uses @noble/post-quantum instead — plain JavaScript, no WASM, no eval —
+ * so post-quantum encryption works under `script-src 'self'`.
+ *
+ * The envelope is structurally an OmniHybridV1 with its own suite id:
+ *
+ * - X25519: ephemeral ECDH to the org's X25519 key (`x25519Epk`)
+ * - ML-KEM: encapsulation to the org's Kyber key (`kyberKemCt`) — ML-KEM-768
+ *   or ML-KEM-1024, picked by the key's length
+ * - The content key is wrapped once (`kyberWrap`) under a KEK derived from
+ *   both shared secrets, so breaking either KEM alone doesn't unwrap it
+ *
+ * @noble/post-quantum is imported lazily, on the first hybrid attempt.
+ */
+
+import {
+  nacl,
+  rand32,
+  b64,
+  fromB64,
+  toHex,
+  fromHex,
+  ENVELOPE_VERSION,
+  ENVELOPE_AEAD,
+} from "./primitives.js";
+import {
+  aeadNonce,
+  aeadSeal,
+  aeadOpen,
+  envelopeAead,
+  deriveWrapKey,
+  x25519Ephemeral,
+  x25519Shared as x25519Agree,
+} from "./aead.js";
+import { tryHybridEncryptLazy, tryHybridDecryptLazy } from "./hybrid-lazy.js";
+import { headerAssociatedData } from "./header.js";
+import type { EnvelopeHeaderFields } from "./header.js";
+import type { ContentSuite, HybridPublicKeys } from "./types.js";
+import type { OmniHybridV1 } from "@omnituum/envelope-registry";
+
+/** Suite ids of ML-KEM envelopes */
+export const ML_KEM_768_SUITE = "x25519+ml-kem-768";
+export const ML_KEM_1024_SUITE = "x25519+ml-kem-1024";
+
+/**
+ * Hybrid implementation: pqc-shared (Kyber WASM) or pure-JS ML-KEM.
+ *
+ * @internal
+ */
+export type HybridEngine = "pqc-shared" | "ml-kem";
+
+type MlKemModule = typeof import("@noble/post-quantum/ml-kem.js");
+
+/** Cached module reference after first load */
+let mlKemModule: MlKemModule | null = null;
+
+async function loadMlKem(): Promise<MlKemModule> {
+  mlKemModule ??= await import("@noble/post-quantum/ml-kem.js");
+  return mlKemModule;
+}
+
+/**
+ * True if an envelope suite is one of the ML-KEM suites.
+ */
+export function isMlKemSuite(suite: string): boolean {
+  return suite === ML_KEM_768_SUITE || suite === ML_KEM_1024_SUITE;
+}
+
+/**
+ * Encrypt to the org's X25519 + ML-KEM keys (pure JS).
+ *
+ * @param plaintext - Plaintext bytes
+ * @param publicKeys - Org keys; `kyberPubB64` is the ML-KEM encapsulation key
+ *   (1184 bytes for ML-KEM-768, 1568 for ML-KEM-1024)
+ * @param aead - Content and key-wrap AEAD
+ * @param header - Header fields to bind as associated data
+ * @returns Envelope with suite ML_KEM_768_SUITE or ML_KEM_1024_SUITE
+ * @throws If the Kyber key has another length or the module fails to load
+ */
+export async function encryptMlKemHybrid(
+  plaintext: Uint8Array,
+  publicKeys: HybridPublicKeys,
+  aead: ContentSuite,
+  header?: EnvelopeHeaderFields
+): Promise<OmniHybridV1> {
+  const mod = await loadMlKem();
+  const kyberPub = fromB64(publicKeys.kyberPubB64);
+  const suite =
+    kyberPub.length === mod.ml_kem768.lengths.publicKey
+      ? ML_KEM_768_SUITE
+      : kyberPub.length === mod.ml_kem1024.lengths.publicKey
+        ? ML_KEM_1024_SUITE
+        : null;
+  if (!suite) {
+    throw new Error(
+      `ML-KEM encapsulation key must be 1184 or 1568 bytes (got ${kyberPub.length})`
+    );
+  }
+
+  const CK = rand32();
+  const contentNonce = aeadNonce(aead);
+  const ad = header && headerAssociatedData(header, suite);
+  const ciphertext = await aeadSeal(aead, CK, plaintext, contentNonce, ad);
+
+  const { cipherText, sharedSecret } = kemFor(mod, suite).encapsulate(kyberPub);
+  const x25519Pub = fromHex(publicKeys.x25519PubHex);
+  const { epk, shared } = await x25519Ephemeral(aead, x25519Pub);
+  const kek = await combineSecrets(aead, suite, sharedSecret, shared, epk, x25519Pub);
+  const wrapNonce = aeadNonce(aead);
+
+  return {
+    v: ENVELOPE_VERSION,
+    suite,
+    aead,
+    x25519Epk: toHex(epk),
+    x25519Wrap: { nonce: "", wrapped: "" },
+    kyberKemCt: b64(cipherText),
+    kyberWrap: {
+      nonce: b64(wrapNonce),
+      wrapped: b64(await aeadSeal(aead, kek, CK, wrapNonce)),
+    },
+    contentNonce: b64(contentNonce),
+    ciphertext: b64(ciphertext),
+    meta: {
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Decrypt an ML-KEM envelope (inverse of encryptMlKemHybrid).
+ *
+ * @param secretKeys - Org keys; `kyberSecB64` is the ML-KEM decapsulation key
+ * @param ad - Associated data the content was sealed with (the encoded header)
+ * @throws If the keys don't match or the ciphertext was tampered with
+ */
+export async function decryptMlKemHybrid(
+  envelope: OmniHybridV1,
+  secretKeys: { x25519SecHex: string; kyberSecB64: string },
+  ad?: Uint8Array
+): Promise<Uint8Array> {
+  if (!isMlKemSuite(envelope.suite)) {
+    throw new Error(`Not an ML-KEM envelope (suite "${envelope.suite}")`);
+  }
+  const aead = envelopeAead(envelope.aead);
+  const mod = await loadMlKem();
+  // ML-KEM decapsulation never fails: a wrong key yields a wrong secret,
+  // caught by the wrap's authentication below
+  const kemShared = kemFor(mod, envelope.suite).decapsulate(
+    fromB64(envelope.kyberKemCt),
+    fromB64(secretKeys.kyberSecB64)
+  );
+  const x25519Sec = fromHex(secretKeys.x25519SecHex);
+  const epk = fromHex(envelope.x25519Epk);
+  const kek = await combineSecrets(
+    aead,
+    envelope.suite,
+    kemShared,
+    await x25519Agree(aead, x25519Sec, epk),
+    epk,
+    nacl.scalarMult.base(x25519Sec)
+  );
+
+  const CK = await aeadOpen(
+    aead,
+    kek,
+    fromB64(envelope.kyberWrap.wrapped),
+    fromB64(envelope.kyberWrap.nonce)
+  );
+  if (!CK) {
+    throw new Error("Failed to unwrap content key (wrong X25519 or ML-KEM secret key?)");
+  }
+  const plaintext = await aeadOpen(
+    aead,
+    CK,
+    fromB64(envelope.ciphertext),
+    fromB64(envelope.contentNonce),
+    ad
+  );
+  if (!plaintext) {
+    throw new Error(
+      ad
+        ? "Failed to decrypt content (ciphertext or envelope header altered)"
+        : "Failed to decrypt content (ciphertext corrupted)"
+    );
+  }
+  return plaintext;
+}
+
+/**
+ * Hybrid-encrypt with the given engine.
+ *
+ * @internal Shared by single-key, multi-recipient and threshold envelopes
+ */
+export function hybridEncrypt(
+  plaintext: Uint8Array,
+  publicKeys: HybridPublicKeys,
+  engine: HybridEngine,
+  aead: ContentSuite
+): Promise<OmniHybridV1> {
+  if (engine === "ml-kem") return encryptMlKemHybrid(plaintext, publicKeys, aead);
+  // pqc-shared seals with XSalsa20-Poly1305 only
+  if (aead !== ENVELOPE_AEAD) {
+    return Promise.reject(new Error(`pqc-shared cannot encrypt with "${aead}"`));
+  }
+  return tryHybridEncryptLazy(plaintext, publicKeys);
+}
+
+/**
+ * Hybrid-decrypt, dispatching on the envelope suite.
+ *
+ * @param ad - Associated data the content was sealed with, if any
+ * @internal Used by the opener
+ * @throws If `ad` is given for a pqc-shared envelope (which can't carry it)
+ */
+export async function hybridDecrypt(
+  envelope: OmniHybridV1,
+  secretKeys: { x25519SecHex: string; kyberSecB64: string },
+  ad?: Uint8Array
+): Promise<string> {
+  if (isMlKemSuite(envelope.suite)) {
+    return new TextDecoder().decode(await decryptMlKemHybrid(envelope, secretKeys, ad));
+  }
+  if (ad) {
+    throw new Error(`Envelope suite "${envelope.suite}" cannot carry an authenticated header`);
+  }
+  return tryHybridDecryptLazy(envelope, secretKeys);
+}
+
+function kemFor(mod: MlKemModule, suite: string) {
+  return suite === ML_KEM_768_SUITE ? mod.ml_kem768 : mod.ml_kem1024;
+}
+
+/**
+ * KEK from both shared secrets, bound to the X25519 transcript
+ * (ephemeral and recipient public keys) and the suite.
+ */
+function combineSecrets(
+  aead: ContentSuite,
+  suite: string,
+  kemShared: Uint8Array,
+  x25519Shared: Uint8Array,
+  epk: Uint8Array,
+  x25519Pub: Uint8Array
+): Promise<Uint8Array> {
+  const ikm = new Uint8Array(kemShared.length + x25519Shared.length + epk.length + x25519Pub.length);
+  let offset = 0;
+  for (const part of [kemShared, x25519Shared, epk, x25519Pub]) {
+    ikm.set(part, offset);
+    offset += part.length;
+  }
+  return deriveWrapKey(aead, ikm, `omnituum/${suite}`, "wrap-ck");
+}
@@ -0,0 +1,234 @@
+/**
+ * Multi-recipient envelopes.
+ *
+ * The payload is encrypted once under a random content key, and that key
+ * is wrapped separately to each recipient:
+ *
+ * - X25519-only: ephemeral ECDH → HKDF → AEAD, exactly as in
+ *   encryptX25519Only()
+ * - Hybrid: the content key is sealed in an OmniHybridV1 to the
+ *   recipient (X25519 + Kyber via lazy-loaded pqc-shared, or pure-JS ML-KEM)
+ *
+ * Every wrap carries the recipient's `kid`, so each team opens the same
+ * submission with its own secret key.
+ */
+
+import { rand32, b64, fromB64, toHex, fromHex, u8, X25519_ONLY_SUITE } from "./primitives.js";
+import {
+  aeadNonce,
+  aeadSeal,
+  aeadOpen,
+  deriveWrapKey,
+  x25519Ephemeral,
+  x25519Shared,
+} from "./aead.js";
+import { hybridEncrypt, hybridDecrypt } from "./mlkem.js";
+import type { HybridEngine } from "./mlkem.js";
+import { headerAssociatedData } from "./header.js";
+import type { EnvelopeHeaderFields } from "./header.js";
+import type {
+  ContentSuite,
+  HybridPublicKeys,
+  IntakeSecretKeyring,
+  IntakeSecretKeys,
+  MultiRecipientPublicKeys,
+  OmniMultiRecipientV1,
+  RecipientPublicKeys,
+  RecipientWrap,
+} from "./types.js";
+
+/** Inner envelope version for multi-recipient envelopes */
+export const MULTI_RECIPIENT_VERSION = "omnituum.multi-recipient.v1";
+
+/**
+ * True if `publicKeys` is a recipient list rather than a single key or keyring.
+ */
+export function isMultiRecipient(publicKeys: unknown): publicKeys is MultiRecipientPublicKeys {
+  return (
+    typeof publicKeys === "object" &&
+    publicKeys !== null &&
+    Array.isArray((publicKeys as MultiRecipientPublicKeys).recipients)
+  );
+}
+
+/**
+ * True if a parsed inner envelope is multi-recipient.
+ */
+export function isMultiRecipientEnvelope(envelope: unknown): envelope is OmniMultiRecipientV1 {
+  return (
+    typeof envelope === "object" &&
+    envelope !== null &&
+    (envelope as OmniMultiRecipientV1).v === MULTI_RECIPIENT_VERSION
+  );
+}
+
+/**
+ * Encrypt once, wrap the content key to every recipient.
+ *
+ * @param plaintext - Plaintext bytes (already padded, if configured)
+ * @param recipients - Recipient keys, each with a `kid`
+ * @param hybrid - Hybrid engine to wrap with, or false for X25519 (throws if the engine is unavailable)
+ * @param aead - Content and X25519 wrap AEAD
+ * @param header - Header fields to bind as associated data
+ * @returns Multi-recipient envelope
+ */
+export async function encryptMultiRecipient(
+  plaintext: Uint8Array,
+  recipients: MultiRecipientPublicKeys["recipients"],
+  hybrid: HybridEngine | false,
+  aead: ContentSuite,
+  header?: EnvelopeHeaderFields
+): Promise<OmniMultiRecipientV1> {
+  const CK = rand32();
+
+  // Wrap first: the header records the suite the wraps report
+  const wraps: RecipientWrap[] = [];
+  for (const recipient of recipients) {
+    wraps.push(await wrapKey(CK, recipient, hybrid, aead));
+  }
+  const suite = wraps[0]?.suite ?? X25519_ONLY_SUITE;
+
+  const contentNonce = aeadNonce(aead);
+  const ad = header && headerAssociatedData(header, suite);
+  const ciphertext = await aeadSeal(aead, CK, plaintext, contentNonce, ad);
+
+  return {
+    v: MULTI_RECIPIENT_VERSION,
+    suite,
+    aead,
+    contentNonce: b64(contentNonce),
+    ciphertext: b64(ciphertext),
+    recipients: wraps,
+    meta: {
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Open a multi-recipient envelope with one recipient's secret keys.
+ *
+ * With a keyring, wraps are matched by `kid`; a bare key set is tried
+ * against every wrap.
+ *
+ * @param ad - Associated data the content was sealed with (the encoded header)
+ * @returns Decrypted plaintext and the `kid` of the wrap that opened it
+ * @throws If no wrap opens with the given keys
+ */
+export async function openMultiRecipient(
+  envelope: OmniMultiRecipientV1,
+  secretKeys: IntakeSecretKeys | IntakeSecretKeyring,
+  ad?: Uint8Array
+): Promise<{ plaintext: string; kid: string; suite: string }> {
+  const attempts: Array<{ wrap: RecipientWrap; keys: IntakeSecretKeys }> =
+    "keys" in secretKeys
+      ? envelope.recipients.flatMap((wrap) =>
+          secretKeys.keys.filter((k) => k.kid === wrap.kid).map((keys) => ({ wrap, keys }))
+        )
+      : envelope.recipients.map((wrap) => ({ wrap, keys: secretKeys }));
+
+  for (const { wrap, keys } of attempts) {
+    let CK: Uint8Array | null;
+    try {
+      CK = await unwrapKey(wrap, keys, envelope.aead);
+    } catch {
+      continue; // Not this recipient
+    }
+    if (!CK) continue;
+
+    const plaintext = await aeadOpen(
+      envelope.aead,
+      CK,
+      fromB64(envelope.ciphertext),
+      fromB64(envelope.contentNonce),
+      ad
+    );
+    if (!plaintext) {
+      throw new Error(
+        ad
+          ? "Failed to decrypt content (ciphertext or envelope header altered)"
+          : "Failed to decrypt content (ciphertext corrupted)"
+      );
+    }
+    return { plaintext: new TextDecoder().decode(plaintext), kid: wrap.kid, suite: wrap.suite };
+  }
+
+  throw new Error("No recipient wrap opens with the given secret keys");
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Key wraps
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Wrap a 32-byte key (content key or key share) to one recipient.
+ *
+ * @internal Shared with threshold envelopes
+ */
+export async function wrapKey(
+  key: Uint8Array,
+  recipient: RecipientPublicKeys,
+  hybrid: HybridEngine | false,
+  aead: ContentSuite
+): Promise<RecipientWrap> {
+  return hybrid
+    ? wrapHybrid(key, recipient.kid, recipient, hybrid, aead)
+    : wrapX25519(key, recipient.kid, recipient.x25519PubHex, aead);
+}
+
+/**
+ * Unwrap a key with one recipient's secret keys.
+ *
+ * @internal Shared with threshold envelopes
+ * @returns The key, or null if the wrap isn't for these keys
+ * @throws If hybrid decryption fails
+ */
+export async function unwrapKey(
+  wrap: RecipientWrap,
+  keys: IntakeSecretKeys,
+  aead: ContentSuite
+): Promise<Uint8Array | null> {
+  if ("keyEnvelope" in wrap) {
+    if (!keys.kyberSecB64) return null;
+    const encoded = await hybridDecrypt(wrap.keyEnvelope, {
+      x25519SecHex: keys.x25519SecHex,
+      kyberSecB64: keys.kyberSecB64,
+    });
+    return fromB64(encoded);
+  }
+  const shared = await x25519Shared(aead, fromHex(keys.x25519SecHex), fromHex(wrap.x25519Epk));
+  const kek = await deriveWrapKey(aead, shared, "omnituum/x25519", "wrap-ck");
+  return aeadOpen(aead, kek, fromB64(wrap.x25519Wrap.wrapped), fromB64(wrap.x25519Wrap.nonce));
+}
+
+async function wrapX25519(
+  CK: Uint8Array,
+  kid: string,
+  x25519PubHex: string,
+  aead: ContentSuite
+): Promise<RecipientWrap> {
+  const { epk, shared } = await x25519Ephemeral(aead, fromHex(x25519PubHex));
+  const kek = await deriveWrapKey(aead, shared, "omnituum/x25519", "wrap-ck");
+  const wrapNonce = aeadNonce(aead);
+  return {
+    kid,
+    suite: X25519_ONLY_SUITE,
+    x25519Epk: toHex(epk),
+    x25519Wrap: {
+      nonce: b64(wrapNonce),
+      wrapped: b64(await aeadSeal(aead, kek, CK, wrapNonce)),
+    },
+  };
+}
+
+async function wrapHybrid(
+  CK: Uint8Array,
+  kid: string,
+  keys: HybridPublicKeys,
+  engine: HybridEngine,
+  aead: ContentSuite
+): Promise<RecipientWrap> {
+  // Base64 so the opener's string-returning hybrid decrypt round-trips it
+  const keyEnvelope = await hybridEncrypt(u8(b64(CK)), keys, engine, aead);
+  return { kid, suite: keyEnvelope.suite, keyEnvelope };
+}
@@ -0,0 +1,483 @@
+/**
+ * Envelope opener (admin/offline side).
+ *
+ * Decrypts wire envelopes produced by submitSecureIntake() and checks the
+ * unauthenticated wire fields (`id`, `pqcUsed`) against the plaintext.
+ * Envelopes with an authenticated header (`hdr`) are opened with the
+ * header rebuilt from the wire as associated data, so edited wire fields
+ * fail decryption.
+ *
+ * X25519-only and ML-KEM envelopes are opened with pure-JS primitives.
+ * Kyber hybrid envelopes are opened via lazy-loaded pqc-shared, same
+ * boundary as the encrypt side — importing this module never loads WASM.
+ */
+
+import { fromB64, fromHex, toHex, blake3DeriveKey, X25519_ONLY_SUITE } from "./primitives.js";
+import { aeadOpen, envelopeAead, isSupportedAead, deriveWrapKey, x25519Shared } from "./aead.js";
+import { hybridDecrypt } from "./mlkem.js";
+import { hashSerializedPayload, serializeCanonicalPayload, RANDOM_ID_FIELD } from "./id.js";
+import { BOT_SCORE_FIELD } from "./botsignals.js";
+import { ATTACHMENTS_FIELD } from "./attachments.js";
+import { unpadPlaintext } from "./padding.js";
+import { encodeEnvelopeHeader, wireEnvelopeHeader } from "./header.js";
+import { isMultiRecipientEnvelope, openMultiRecipient } from "./multi-recipient.js";
+import { isThresholdEnvelope, unwrapShare, openWithShares } from "./threshold.js";
+import type {
+  AttachmentRef,
+  BotSignalReason,
+  IntakeSecretKeyring,
+  IntakeSecretKeys,
+  IntakeWireEnvelope,
+  OmniMultiRecipientV1,
+  OmniThresholdV1,
+  OpenedIntake,
+  RequestIdKey,
+  ThresholdShare,
+} from "./types.js";
+import type { OmniHybridV1 } from "@omnituum/envelope-registry";
+
+/** derive_key context for org-derived dedup keys */
+const DEDUP_KEY_CONTEXT = "omnituum.intake 2026 request-id dedup key v1";
+
+/**
+ * Options for opening envelopes
+ */
+export interface OpenOptions {
+  /** Keyed-ID key the form submits with (needed for `idMatches`) */
+  requestIdKey?: RequestIdKey;
+}
+
+/**
+ * Open an intake wire envelope.
+ *
+ * With a secret keyring, the envelope's `kid` selects the key directly;
+ * envelopes without a `kid` (single-key configs, older clients) are tried
+ * against each key in order. Multi-recipient envelopes open with any one
+ * recipient's keys (matched to the wraps by `kid` for keyrings).
+ * Threshold envelopes can't be opened with one key set — see
+ * unwrapThresholdShare() and openThresholdEnvelope().
+ *
+ * @param wireJson - Request body as received by the intake endpoint (string or parsed)
+ * @param secretKeys - Org secret keys or keyring (kyberSecB64 required for hybrid envelopes)
+ * @param opts - Open options (requestIdKey for keyed-ID forms)
+ * @returns Decrypted payload plus ID / pqcUsed consistency checks
+ * @throws If decryption fails, including when an authenticated header's
+ *   wire fields were altered
+ */
+export async function openIntakeEnvelope(
+  wireJson: string | IntakeWireEnvelope,
+  secretKeys: IntakeSecretKeys | IntakeSecretKeyring,
+  opts: OpenOptions = {}
+): Promise<OpenedIntake> {
+  const wire = parseWireEnvelope(wireJson);
+  const encrypted = parseInnerEnvelope(wire.encrypted);
+  const header = wireEnvelopeHeader(wire, encrypted.suite);
+  const ad = header && encodeEnvelopeHeader(header);
+
+  let plaintext: string;
+  let kid: string | undefined;
+  let suite = encrypted.suite;
+  let pqcSuite = encrypted.suite !== X25519_ONLY_SUITE;
+  let recipients: string[] | undefined;
+
+  if (isThresholdEnvelope(encrypted)) {
+    throw new Error(
+      `Threshold envelope (${encrypted.k} of ${encrypted.n}): collect shares with unwrapThresholdShare() and open with openThresholdEnvelope()`
+    );
+  } else if (isMultiRecipientEnvelope(encrypted)) {
+    // Recipient wraps carry their own kid; the wire kid is not used
+    ({ plaintext, kid, suite } = await openMultiRecipient(encrypted, secretKeys, ad));
+    pqcSuite = encrypted.recipients.every((r) => r.suite !== X25519_ONLY_SUITE);
+    if (kid === "") {
+      // One unnamed wrap: a single-key pqc-shared envelope with a header
+      kid = undefined;
+    } else {
+      recipients = encrypted.recipients.map((r) => r.kid);
+    }
+  } else if (!("keys" in secretKeys)) {
+    plaintext = await decryptEnvelope(encrypted, secretKeys, ad);
+  } else if (wire.kid !== undefined) {
+    const entry = secretKeys.keys.find((k) => k.kid === wire.kid);
+    if (!entry) {
+      throw new Error(`No secret key for kid "${wire.kid}"`);
+    }
+    plaintext = await decryptEnvelope(encrypted, entry, ad);
+    kid = entry.kid;
+  } else {
+    let opened: { plaintext: string; kid: string } | null = null;
+    for (const entry of secretKeys.keys) {
+      try {
+        opened = { plaintext: await decryptEnvelope(encrypted, entry, ad), kid: entry.kid };
+        break;
+      } catch {
+        // Wrong key - try the next one
+      }
+    }
+    if (!opened) {
+      throw new Error("No key in the keyring opens this envelope");
+    }
+    ({ plaintext, kid } = opened);
+  }
+
+  return finishOpen(
+    wire,
+    plaintext,
+    { header, kid, recipients, suite, pqcSuite },
+    opts
+  );
+}
+
+/**
+ * Unwrap one trustee's share of a threshold envelope.
+ *
+ * Each trustee runs this with their own secret keys (a keyring is matched
+ * to the share wraps by `kid`) and hands the share to whoever combines
+ * them. A share alone reveals nothing about the content key.
+ *
+ * @param wireJson - Request body as received by the intake endpoint (string or parsed)
+ * @param secretKeys - Trustee secret keys or keyring
+ * @returns The trustee's share
+ */
+export async function unwrapThresholdShare(
+  wireJson: string | IntakeWireEnvelope,
+  secretKeys: IntakeSecretKeys | IntakeSecretKeyring
+): Promise<ThresholdShare> {
+  const encrypted = parseInnerEnvelope(parseWireEnvelope(wireJson).encrypted);
+  if (!isThresholdEnvelope(encrypted)) {
+    throw new Error("Not a threshold envelope");
+  }
+  return unwrapShare(encrypted, secretKeys);
+}
+
+/**
+ * Open a threshold envelope with k (or more) trustee shares.
+ *
+ * @param wireJson - Request body as received by the intake endpoint (string or parsed)
+ * @param shares - Shares from unwrapThresholdShare(), one per trustee
+ * @param opts - Open options (requestIdKey for keyed-ID forms)
+ * @returns Decrypted payload plus ID / pqcUsed consistency checks
+ * @throws If fewer than k shares are given or they don't recover the content key
+ */
+export async function openThresholdEnvelope(
+  wireJson: string | IntakeWireEnvelope,
+  shares: ThresholdShare[],
+  opts: OpenOptions = {}
+): Promise<OpenedIntake> {
+  const wire = parseWireEnvelope(wireJson);
+  const encrypted = parseInnerEnvelope(wire.encrypted);
+  if (!isThresholdEnvelope(encrypted)) {
+    throw new Error("Not a threshold envelope");
+  }
+
+  const header = wireEnvelopeHeader(wire, encrypted.suite);
+  const { plaintext, trustees } = await openWithShares(
+    encrypted,
+    shares,
+    header && encodeEnvelopeHeader(header)
+  );
+  return finishOpen(
+    wire,
+    plaintext,
+    {
+      header,
+      threshold: { k: encrypted.k, n: encrypted.n, trustees },
+      suite: encrypted.suite,
+      pqcSuite: encrypted.shares.every((s) => s.suite !== X25519_ONLY_SUITE),
+    },
+    opts
+  );
+}
+
+/**
+ * Unpad, parse and verify a decrypted plaintext (all envelope kinds).
+ */
+function finishOpen(
+  wire: IntakeWireEnvelope,
+  plaintext: string,
+  opened: Pick<OpenedIntake, "header" | "kid" | "recipients" | "threshold" | "suite"> & {
+    pqcSuite: boolean;
+  },
+  opts: OpenOptions
+): OpenedIntake {
+  const { header, kid, recipients, threshold, suite, pqcSuite } = opened;
+
+  // Strip length-hiding padding (config.padding); unpadded plaintext passes through
+  plaintext = unpadPlaintext(plaintext);
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(plaintext);
+  } catch {
+    throw new Error("Decrypted plaintext is not valid JSON");
+  }
+
+  // Bot score and attachment refs are not part of the content ID
+  const bot = payload[BOT_SCORE_FIELD];
+  const botScore = isBotScore(bot) ? { score: bot.score, reasons: bot.reasons } : undefined;
+  if (botScore) {
+    delete payload[BOT_SCORE_FIELD];
+  }
+  const refs = payload[ATTACHMENTS_FIELD];
+  const attachments = Array.isArray(refs) ? (refs as AttachmentRef[]) : undefined;
+  if (attachments) {
+    delete payload[ATTACHMENTS_FIELD];
+  }
+
+  // Random IDs are committed inside the plaintext; content IDs are
+  // recomputed - the plaintext is exactly the string that was hashed on
+  // the client, whichever serialization (json / jcs) the form uses
+  const contentId =
+    botScore || attachments
+      ? contentIdWithoutReserved(payload, wire.id, opts.requestIdKey)
+      : hashSerializedPayload(plaintext, opts.requestIdKey);
+  const randomId = payload[RANDOM_ID_FIELD];
+  const idStrategy =
+    typeof randomId === "string" && contentId !== wire.id ? "random" : "content";
+  const computedId = idStrategy === "random" ? (randomId as string) : contentId;
+  if (idStrategy === "random") {
+    delete payload[RANDOM_ID_FIELD];
+  }
+
+  return {
+    v: wire.v,
+    id: wire.id,
+    computedId,
+    idStrategy,
+    idMatches: computedId === wire.id,
+    pqcUsed: wire.pqcUsed,
+    pqcMatches: wire.pqcUsed === pqcSuite,
+    ...(header ? { header } : {}),
+    ...(kid !== undefined ? { kid } : {}),
+    ...(recipients ? { recipients } : {}),
+    ...(threshold ? { threshold } : {}),
+    suite,
+    plaintext,
+    payload,
+    ...(botScore ? { botScore } : {}),
+    ...(attachments ? { attachments } : {}),
+  };
+}
+
+/**
+ * Derive the org's dedup key for keyed request IDs.
+ *
+ * Deterministic from the X25519 secret key, so the org can always
+ * re-derive it, but it is not derivable from anything published. Put the
+ * result in IntakeConfig.requestIdKey as `{ dedupKeyHex }`. Derive it once
+ * and keep it across key rotations — a new key means new IDs.
+ *
+ * @param secretKeys - Org secret keys
+ * @returns 64-char hex dedup key
+ */
+export function deriveDedupKey(secretKeys: Pick<IntakeSecretKeys, "x25519SecHex">): string {
+  return toHex(blake3DeriveKey(DEDUP_KEY_CONTEXT, fromHex(secretKeys.x25519SecHex)));
+}
+
+/**
+ * Content ID of a payload whose plaintext also carried reserved fields:
+ * re-serialize without them. The form's serialization isn't on the wire,
+ * so try both and keep the one that matches.
+ */
+function contentIdWithoutReserved(
+  payload: Record<string, unknown>,
+  wireId: string,
+  requestIdKey: RequestIdKey | undefined
+): string {
+  const candidates = (["json", "jcs"] as const).map((serialization) =>
+    hashSerializedPayload(serializeCanonicalPayload(payload, serialization), requestIdKey)
+  );
+  return candidates.find((id) => id === wireId) ?? candidates[0];
+}
+
+function isBotScore(value: unknown): value is { score: number; reasons: BotSignalReason[] } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { score?: unknown }).score === "number" &&
+    Array.isArray((value as { reasons?: unknown }).reasons)
+  );
+}
+
+/** Decrypt the inner envelope with one key set (either suite). */
+async function decryptEnvelope(
+  envelope: OmniHybridV1,
+  secretKeys: IntakeSecretKeys,
+  ad: Uint8Array | undefined
+): Promise<string> {
+  if (envelope.suite === X25519_ONLY_SUITE) {
+    return new TextDecoder().decode(
+      await decryptX25519Only(envelope, secretKeys.x25519SecHex, ad)
+    );
+  }
+  if (!secretKeys.kyberSecB64) {
+    throw new Error(`Envelope suite "${envelope.suite}" requires kyberSecB64`);
+  }
+  return hybridDecrypt(
+    envelope,
+    { x25519SecHex: secretKeys.x25519SecHex, kyberSecB64: secretKeys.kyberSecB64 },
+    ad
+  );
+}
+
+/**
+ * Decrypt an X25519-only envelope (inverse of encryptX25519Only).
+ *
+ * @param ad - Associated data the content was sealed with (the encoded header)
+ * @internal Exported for golden-vector tests
+ */
+export async function decryptX25519Only(
+  envelope: OmniHybridV1,
+  x25519SecHex: string,
+  ad?: Uint8Array
+): Promise<Uint8Array> {
+  const aead = envelopeAead(envelope.aead);
+  const shared = await x25519Shared(
+    aead,
+    fromHex(x25519SecHex),
+    fromHex(envelope.x25519Epk)
+  );
+  const kek = await deriveWrapKey(aead, shared, "omnituum/x25519", "wrap-ck");
+  const CK = await aeadOpen(
+    aead,
+    kek,
+    fromB64(envelope.x25519Wrap.wrapped),
+    fromB64(envelope.x25519Wrap.nonce)
+  );
+  if (!CK) {
+    throw new Error("Failed to unwrap content key (wrong X25519 secret key?)");
+  }
+
+  const plaintext = await aeadOpen(
+    aead,
+    CK,
+    fromB64(envelope.ciphertext),
+    fromB64(envelope.contentNonce),
+    ad
+  );
+  if (!plaintext) {
+    throw new Error(
+      ad
+        ? "Failed to decrypt content (ciphertext or envelope header altered)"
+        : "Failed to decrypt content (ciphertext corrupted)"
+    );
+  }
+  return plaintext;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Envelope parsing
+// ═══════════════════════════════════════════════════════════════════════════
+
+function parseWireEnvelope(
+  wireJson: string | IntakeWireEnvelope
+): IntakeWireEnvelope {
+  let wire: unknown;
+  try {
+    wire = typeof wireJson === "string" ? JSON.parse(wireJson) : wireJson;
+  } catch {
+    throw new Error("Invalid intake envelope: not valid JSON");
+  }
+
+  const w = wire as Partial<IntakeWireEnvelope> | null;
+  if (!w || typeof w !== "object") {
+    throw new Error("Invalid intake envelope: expected an object");
+  }
+  if (typeof w.v !== "string") {
+    throw new Error("Invalid intake envelope: missing 'v'");
+  }
+  if (typeof w.id !== "string" || !/^[0-9a-f]{64}$/.test(w.id)) {
+    throw new Error("Invalid intake envelope: 'id' must be 64-char lowercase hex");
+  }
+  if (w.kid !== undefined && typeof w.kid !== "string") {
+    throw new Error("Invalid intake envelope: 'kid' must be a string");
+  }
+  if (
+    w.hdr !== undefined &&
+    (typeof w.hdr !== "object" ||
+      w.hdr === null ||
+      typeof w.hdr.form !== "string" ||
+      typeof w.hdr.ts !== "number" ||
+      typeof w.hdr.nonce !== "string")
+  ) {
+    throw new Error("Invalid intake envelope: 'hdr' must be { form, ts, nonce }");
+  }
+  if (typeof w.encrypted !== "string") {
+    throw new Error("Invalid intake envelope: missing 'encrypted'");
+  }
+
+  return {
+    v: w.v,
+    id: w.id,
+    // Envelopes predating the pqcUsed flag are treated as not claiming PQC
+    pqcUsed: w.pqcUsed === true,
+    ...(w.kid !== undefined ? { kid: w.kid } : {}),
+    ...(w.hdr !== undefined ? { hdr: { form: w.hdr.form, ts: w.hdr.ts, nonce: w.hdr.nonce } } : {}),
+    encrypted: w.encrypted,
+  };
+}
+
+function parseInnerEnvelope(
+  encrypted: string
+): OmniHybridV1 | OmniMultiRecipientV1 | OmniThresholdV1 {
+  let env: OmniHybridV1;
+  try {
+    env = JSON.parse(encrypted);
+  } catch {
+    throw new Error("Invalid intake envelope: 'encrypted' is not valid JSON");
+  }
+  if (isMultiRecipientEnvelope(env)) {
+    if (
+      !isSupportedAead(env.aead) ||
+      typeof env.ciphertext !== "string" ||
+      typeof env.contentNonce !== "string" ||
+      !Array.isArray(env.recipients) ||
+      !env.recipients.every((r) => r && typeof r.kid === "string" && typeof r.suite === "string")
+    ) {
+      throw new Error("Invalid intake envelope: malformed multi-recipient payload");
+    }
+    return env;
+  }
+  if (isThresholdEnvelope(env)) {
+    if (
+      !isSupportedAead(env.aead) ||
+      typeof env.ciphertext !== "string" ||
+      typeof env.contentNonce !== "string" ||
+      !Number.isInteger(env.k) ||
+      !Array.isArray(env.shares) ||
+      env.shares.length !== env.n ||
+      !env.shares.every(
+        (s) => s && typeof s.kid === "string" && typeof s.suite === "string" && Number.isInteger(s.index)
+      )
+    ) {
+      throw new Error("Invalid intake envelope: malformed threshold payload");
+    }
+    return env;
+  }
+  if (
+    !env ||
+    typeof env.suite !== "string" ||
+    typeof env.x25519Epk !== "string" ||
+    typeof env.ciphertext !== "string" ||
+    typeof env.contentNonce !== "string" ||
+    typeof env.x25519Wrap !== "object"
+  ) {
+    throw new Error("Invalid intake envelope: malformed 'encrypted' payload");
+  }
+  return env;
+}
+
+// Attachment decryption (refs come from OpenedIntake.attachments)
+export { openAttachment } from "./attachments.js";
+
+// Re-export types for convenience
+export type {
+  AttachmentRef,
+  IntakeSecretKeyring,
+  IntakeSecretKeys,
+  IntakeWireEnvelope,
+  OmniMultiRecipientV1,
+  OmniThresholdV1,
+  OpenedIntake,
+  RequestIdKey,
+  ThresholdShare,
+} from "./types.js";
@@ -0,0 +1,106 @@
+/**
+ * Length-hiding plaintext padding.
+ *
+ * The padded plaintext is `plaintext ‖ 0x01 ‖ 0x00…` — ISO/IEC 7816-4-style
+ * bit padding, with a 0x01 marker instead of 0x80 so the padded bytes stay
+ * valid UTF-8 (the hybrid opener hands back a decoded string). Unpadding
+ * strips trailing zeros and exactly one marker, so it is unambiguous for
+ * any input. Canonical JSON plaintext never ends in 0x00 or 0x01, which is
+ * how the opener tells padded plaintext from unpadded.
+ */
+
+import type { PaddingPolicy } from "./types.js";
+
+const MARKER = 0x01;
+
+/** Default bucket sizes in bytes (fit the default 32KB maxPlaintextBytes) */
+export const DEFAULT_PADDING_BUCKETS = [512, 2048, 8192, 32768];
+
+const DEFAULT_POW2_MIN_BYTES = 256;
+
+/**
+ * Padded length for a plaintext of `length` bytes (marker included).
+ *
+ * - bucket: smallest bucket that fits, else a multiple of the largest
+ * - pow2: next power of two (at least `minBytes`)
+ * - fixed: `size`, or null if the plaintext doesn't fit
+ *
+ * @param length - Unpadded plaintext length in bytes
+ * @param policy - Padding policy
+ * @returns Padded length, or null if it can't be padded under the policy
+ */
+export function paddedLength(length: number, policy: PaddingPolicy): number | null {
+  const needed = length + 1;
+  switch (policy.mode) {
+    case "bucket": {
+      const buckets = [...(policy.buckets?.length ? policy.buckets : DEFAULT_PADDING_BUCKETS)].sort(
+        (a, b) => a - b
+      );
+      const fit = buckets.find((size) => size >= needed);
+      if (fit !== undefined) return fit;
+      const largest = buckets[buckets.length - 1];
+      return Math.ceil(needed / largest) * largest;
+    }
+    case "pow2": {
+      let size = Math.max(1, policy.minBytes ?? DEFAULT_POW2_MIN_BYTES);
+      while (size < needed) size *= 2;
+      return size;
+    }
+    case "fixed":
+      return needed <= policy.size ? policy.size : null;
+  }
+}
+
+/**
+ * Pad plaintext bytes under a policy.
+ *
+ * @returns Padded bytes, or null if the plaintext doesn't fit (fixed mode)
+ */
+export function padPlaintext(plaintext: Uint8Array, policy: PaddingPolicy): Uint8Array | null {
+  const length = paddedLength(plaintext.length, policy);
+  if (length === null) return null;
+  const padded = new Uint8Array(length);
+  padded.set(plaintext, 0);
+  padded[plaintext.length] = MARKER;
+  return padded;
+}
+
+/**
+ * Remove padding from a decrypted plaintext string (no-op if unpadded).
+ *
+ * @throws If the plaintext ends in padding bytes but has no marker
+ */
+export function unpadPlaintext(plaintext: string): string {
+  const last = plaintext.charCodeAt(plaintext.length - 1);
+  if (last !== 0 && last !== MARKER) return plaintext;
+
+  let end = plaintext.length;
+  while (end > 0 && plaintext.charCodeAt(end - 1) === 0) end--;
+  if (end === 0 || plaintext.charCodeAt(end - 1) !== MARKER) {
+    throw new Error("Invalid plaintext padding");
+  }
+  return plaintext.slice(0, end - 1);
+}
+
+/**
+ * Check a padding policy's sizes.
+ *
+ * @internal Used by validateIntakeConfig
+ * @returns Problem description, or null if the policy is usable
+ */
+export function checkPaddingPolicy(policy: PaddingPolicy, maxPlaintextBytes: number): string | null {
+  const sizes =
+    policy.mode === "bucket"
+      ? policy.buckets ?? DEFAULT_PADDING_BUCKETS
+      : policy.mode === "pow2"
+        ? [policy.minBytes ?? DEFAULT_POW2_MIN_BYTES]
+        : [policy.size];
+  if (sizes.length === 0 || !sizes.every((size) => Number.isInteger(size) && size > 0)) {
+    return "Padding sizes must be positive integers";
+  }
+  const largest = Math.max(...sizes);
+  if (largest > maxPlaintextBytes) {
+    return `Padding size ${largest} exceeds maxPlaintextBytes (${maxPlaintextBytes}); padded submissions would be rejected`;
+  }
+  return null;
+}
@@ -1,58 +1,205 @@
 /**
- * Pending submission tracking (sessionStorage-based idempotency)
+ * Pending submission tracking (storage-adapter-based idempotency)
+ *
+ * Pending state is a TTL-pruned map of request id → { ts, attempts,
+ * lastError } under one storage key, so several forms (or wizard steps)
+ * in flight on the same page each keep their own retry semantics.
  */
 
-import type { PendingSubmission } from "./types.js";
+import { defaultStorage } from "./storage.js";
+import type {
+  IntakeConfig,
+  IntakeStorage,
+  PendingSubmission,
+  SubmitErrorCode,
+} from "./types.js";
 
 const DEFAULT_STORAGE_KEY = "loggie.intake.pending";
 const DEFAULT_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
 /**
- * Get pending submission ID if one exists and hasn't expired.
+ * Where pending state lives (any IntakeConfig satisfies this).
  */
-export function getPendingId(
-  storageKey = DEFAULT_STORAGE_KEY,
-  ttlMs = DEFAULT_TTL_MS
-): string | null {
-  try {
-    const raw = sessionStorage.getItem(storageKey);
-    if (!raw) return null;
-    const pending = JSON.parse(raw) as PendingSubmission;
-    // Expire after TTL
-    if (Date.now() - pending.ts > ttlMs) {
-      clearPendingSubmission(storageKey);
-      return null;
-    }
-    return pending.id;
-  } catch {
-    return null;
-  }
+export type PendingStoreOptions = Pick<
+  IntakeConfig,
+  "storageKey" | "pendingTtlMs" | "storage"
+>;
+
+/** Stored map entry (id is the map key) */
+type PendingEntry = Omit<PendingSubmission, "id">;
+type PendingMap = Record<string, PendingEntry>;
+
+/**
+ * List all unexpired pending submissions.
+ *
+ * @param opts - Storage key / TTL / adapter (pass your IntakeConfig)
+ */
+export async function listPendingSubmissions(
+  opts: PendingStoreOptions = {}
+): Promise<PendingSubmission[]> {
+  const map = await readPendingMap(resolve(opts));
+  return Object.entries(map).map(([id, entry]) => ({ id, ...entry }));
+}
+
+/**
+ * Get one pending submission if it exists and hasn't expired.
+ *
+ * @param id - Request id
+ * @param opts - Storage key / TTL / adapter (pass your IntakeConfig)
+ */
+export async function getPendingSubmission(
+  id: string,
+  opts: PendingStoreOptions = {}
+): Promise<PendingSubmission | null> {
+  const map = await readPendingMap(resolve(opts));
+  const entry = map[id];
+  return entry ? { id, ...entry } : null;
+}
+
+/**
+ * Find the pending submission for a payload (idStrategy "random").
+ *
+ * @param contentId - Content ID of the payload
+ * @param opts - Storage key / TTL / adapter (pass your IntakeConfig)
+ */
+export async function findPendingByContent(
+  contentId: string,
+  opts: PendingStoreOptions = {}
+): Promise<PendingSubmission | null> {
+  const map = await readPendingMap(resolve(opts));
+  const match = Object.entries(map).find(([, entry]) => entry.contentId === contentId);
+  return match ? { id: match[0], ...match[1] } : null;
+}
+
+/**
+ * Record a delivery attempt for `id` (creates the entry if needed).
+ * Refreshes the timestamp so the TTL runs from the latest attempt.
+ *
+ * @param contentId - Content ID to remember for random-ID submissions
+ */
+export async function markPendingAttempt(
+  id: string,
+  opts: PendingStoreOptions = {},
+  contentId?: string
+): Promise<void> {
+  await updatePendingMap(resolve(opts), (map) => {
+    const attempts = (map[id]?.attempts ?? 0) + 1;
+    const remembered = contentId ?? map[id]?.contentId;
+    map[id] = {
+      ts: Date.now(),
+      attempts,
+      ...(remembered !== undefined ? { contentId: remembered } : {}),
+    };
+  });
 }
 
 /**
- * Set pending submission ID.
+ * Record why the latest attempt for `id` failed (entry stays pending).
  */
-export function setPendingId(
+export async function setPendingError(
   id: string,
-  storageKey = DEFAULT_STORAGE_KEY
-): void {
+  lastError: SubmitErrorCode,
+  opts: PendingStoreOptions = {}
+): Promise<void> {
+  await updatePendingMap(resolve(opts), (map) => {
+    if (map[id]) map[id] = { ...map[id], lastError };
+  });
+}
+
+/**
+ * Clear one pending submission.
+ */
+export async function clearPendingSubmission(
+  id: string,
+  opts: PendingStoreOptions = {}
+): Promise<void> {
+  await updatePendingMap(resolve(opts), (map) => {
+    delete map[id];
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Storage access
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface ResolvedStore {
+  storage: IntakeStorage;
+  key: string;
+  ttlMs: number;
+}
+
+function resolve(opts: PendingStoreOptions): ResolvedStore {
+  return {
+    storage: opts.storage ?? defaultStorage(),
+    key: opts.storageKey ?? DEFAULT_STORAGE_KEY,
+    ttlMs: opts.pendingTtlMs ?? DEFAULT_TTL_MS,
+  };
+}
+
+/** Read the map, dropping expired entries (never throws). */
+async function readPendingMap(store: ResolvedStore): Promise<PendingMap> {
+  let raw: string | null;
   try {
-    const pending: PendingSubmission = { id, ts: Date.now() };
-    sessionStorage.setItem(storageKey, JSON.stringify(pending));
+    raw = await store.storage.get(store.key);
   } catch {
-    // sessionStorage quota exceeded or unavailable - proceed without persistence
+    return {};
   }
+  return pruneExpired(parsePendingMap(raw), store.ttlMs);
 }
 
-/**
- * Clear pending submission.
- */
-export function clearPendingSubmission(
-  storageKey = DEFAULT_STORAGE_KEY
-): void {
+function parsePendingMap(raw: string | null): PendingMap {
+  if (!raw) return {};
   try {
-    sessionStorage.removeItem(storageKey);
+    const parsed = JSON.parse(raw);
+    // Legacy single-slot format: { id, ts }
+    if (typeof parsed?.id === "string" && typeof parsed?.ts === "number") {
+      return { [parsed.id]: { ts: parsed.ts, attempts: 1 } };
+    }
+    return parsed && typeof parsed === "object" ? (parsed as PendingMap) : {};
   } catch {
-    // Ignore errors
+    return {};
+  }
+}
+
+function pruneExpired(map: PendingMap, ttlMs: number): PendingMap {
+  const now = Date.now();
+  const live: PendingMap = {};
+  for (const [id, entry] of Object.entries(map)) {
+    if (typeof entry?.ts === "number" && now - entry.ts <= ttlMs) {
+      live[id] = entry;
+    }
   }
+  return live;
+}
+
+// Serialize read-modify-write per storage + key, so concurrent submissions
+// on the same page can't overwrite each other's entries (async adapters).
+const locks = new WeakMap<IntakeStorage, Map<string, Promise<void>>>();
+
+function updatePendingMap(
+  store: ResolvedStore,
+  mutate: (map: PendingMap) => void
+): Promise<void> {
+  let byKey = locks.get(store.storage);
+  if (!byKey) {
+    byKey = new Map();
+    locks.set(store.storage, byKey);
+  }
+
+  const previous = byKey.get(store.key) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    try {
+      const map = await readPendingMap(store);
+      mutate(map);
+      if (Object.keys(map).length === 0) {
+        await store.storage.remove(store.key);
+      } else {
+        await store.storage.set(store.key, JSON.stringify(map));
+      }
+    } catch {
+      // Storage quota exceeded or unavailable - proceed without persistence
+    }
+  });
+  byKey.set(store.key, next);
+  return next;
 }
@@ -0,0 +1,28 @@
+/**
+ * Proof-of-work worker entry (loaded by pow.ts via new URL(..., import.meta.url)).
+ *
+ * Receives a PowSearchRequest, reports progress every chunk and posts the
+ * nonce when found. The main thread terminates it on abort.
+ */
+
+import { powPrefix, searchNonceRange, POW_CHUNK_SIZE } from "./pow.js";
+import type { PowSearchRequest } from "./pow.js";
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PowSearchRequest>) => void) | null;
+  postMessage(message: unknown): void;
+};
+
+scope.onmessage = (event) => {
+  const { idHex, challenge, difficulty } = event.data;
+  const prefix = powPrefix(idHex, challenge);
+
+  for (let start = 0n; ; start += BigInt(POW_CHUNK_SIZE)) {
+    const nonce = searchNonceRange(prefix, difficulty, start, POW_CHUNK_SIZE);
+    if (nonce !== null) {
+      scope.postMessage({ type: "done", nonce });
+      return;
+    }
+    scope.postMessage({ type: "progress", hashes: Number(start) + POW_CHUNK_SIZE });
+  }
+};
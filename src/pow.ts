@@ -0,0 +1,314 @@
+/**
+ * Hashcash-style proof of work.
+ *
+ * The client searches for a nonce such that
+ *
+ *   BLAKE3(id bytes ‖ utf8(challenge) ‖ nonce as u64 big-endian)
+ *
+ * starts with `difficulty` zero bits, and attaches { challenge,
+ * difficulty, nonce } to the wire envelope. Binding the id means a
+ * solved token can't be reused for another submission; binding a
+ * server-issued challenge means tokens can't be precomputed.
+ *
+ * The search runs in a Web Worker where available, otherwise in-thread
+ * in small chunks that yield to the event loop. The in-thread search also
+ * takes over in the CommonJS build and from a worker that goes silent.
+ */
+
+import { blake3, fromHex, u8 } from "./primitives.js";
+import type {
+  IntakeWireEnvelope,
+  ProofOfWorkConfig,
+  ProofOfWorkProgress,
+  ProofOfWorkToken,
+} from "./types.js";
+
+const DEFAULT_DIFFICULTY = 16;
+const MAX_DIFFICULTY = 32;
+
+/** A worker silent for this long (no progress) is terminated; the search runs in-thread */
+const WORKER_TIMEOUT_MS = 15_000;
+
+/** Hashes between progress reports / yields. @internal */
+export const POW_CHUNK_SIZE = 4096;
+
+/**
+ * Challenge issued by a challenge endpoint
+ */
+export interface ProofOfWorkChallenge {
+  challenge: string;
+  difficulty: number;
+}
+
+/**
+ * Search parameters (worker message)
+ *
+ * @internal
+ */
+export interface PowSearchRequest {
+  idHex: string;
+  challenge: string;
+  difficulty: number;
+}
+
+/**
+ * Resolve the challenge to solve: fixed in config, or fetched from
+ * `challengeUrl` (GET → { challenge, difficulty }).
+ *
+ * @throws If the endpoint fails or returns an unusable challenge
+ */
+export async function fetchProofOfWorkChallenge(
+  config: ProofOfWorkConfig,
+  signal?: AbortSignal
+): Promise<ProofOfWorkChallenge> {
+  if (config.challengeUrl === undefined) {
+    if (typeof config.challenge !== "string" || config.challenge === "") {
+      throw new Error("proofOfWork needs a challenge or a challengeUrl");
+    }
+    return {
+      challenge: config.challenge,
+      difficulty: checkDifficulty(config.difficulty ?? DEFAULT_DIFFICULTY),
+    };
+  }
+
+  const response = await fetch(config.challengeUrl, {
+    headers: { Accept: "application/json" },
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Challenge fetch failed (HTTP ${response.status})`);
+  }
+  const body = (await response.json()) as Partial<ProofOfWorkChallenge> | null;
+  if (!body || typeof body.challenge !== "string" || body.challenge === "") {
+    throw new Error("Challenge endpoint returned no challenge");
+  }
+  return {
+    challenge: body.challenge,
+    difficulty: checkDifficulty(body.difficulty ?? config.difficulty ?? DEFAULT_DIFFICULTY),
+  };
+}
+
+/**
+ * Find a proof-of-work nonce for a request id.
+ *
+ * @param idHex - Request id (64-char hex)
+ * @param challenge - Server challenge
+ * @param opts - Difficulty (leading zero bits), progress callback, abort signal
+ * @returns Token to attach to the wire envelope
+ */
+export async function solveProofOfWork(
+  idHex: string,
+  challenge: string,
+  opts: {
+    difficulty?: number;
+    onProgress?: (progress: ProofOfWorkProgress) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<ProofOfWorkToken> {
+  const difficulty = checkDifficulty(opts.difficulty ?? DEFAULT_DIFFICULTY);
+  const request: PowSearchRequest = { idHex, challenge, difficulty };
+
+  const nonce =
+    (await searchInWorker(request, opts.onProgress, opts.signal)) ??
+    (await searchInThread(request, opts.onProgress, opts.signal));
+
+  return { challenge, difficulty, nonce };
+}
+
+/**
+ * Verify a proof-of-work token (server side).
+ *
+ * @param envelope - Wire envelope (or just its `id` and `pow`)
+ * @param expected - Challenge the server issued (required: a token for a
+ *   challenge the client picked proves nothing) and the minimum difficulty
+ * @returns true if the token is bound to this id and challenge and meets the difficulty
+ */
+export function verifyProofOfWork(
+  envelope: Pick<IntakeWireEnvelope, "id" | "pow">,
+  expected: { challenge: string; difficulty: number }
+): boolean {
+  const pow = envelope.pow;
+  if (!pow || typeof pow.nonce !== "string" || !/^[0-9a-f]{16}$/.test(pow.nonce)) {
+    return false;
+  }
+  if (typeof envelope.id !== "string" || !/^[0-9a-f]{64}$/.test(envelope.id)) {
+    return false;
+  }
+  if (typeof expected.challenge !== "string" || pow.challenge !== expected.challenge) {
+    return false;
+  }
+  if (typeof pow.difficulty !== "number" || pow.difficulty < expected.difficulty) {
+    return false;
+  }
+
+  const prefix = powPrefix(envelope.id, pow.challenge);
+  return leadingZeroBits(hashWithNonce(prefix, BigInt("0x" + pow.nonce))) >= expected.difficulty;
+}
+
+/**
+ * Search `count` nonces starting at `start`.
+ *
+ * @internal Shared by the worker and the in-thread fallback
+ * @returns Nonce as 16-char hex, or null if none in range
+ */
+export function searchNonceRange(
+  prefix: Uint8Array,
+  difficulty: number,
+  start: bigint,
+  count: number
+): string | null {
+  for (let i = 0n; i < BigInt(count); i++) {
+    const nonce = start + i;
+    if (leadingZeroBits(hashWithNonce(prefix, nonce)) >= difficulty) {
+      return nonce.toString(16).padStart(16, "0");
+    }
+  }
+  return null;
+}
+
+/**
+ * id bytes ‖ utf8(challenge) — the fixed part of every hashed message.
+ *
+ * @internal
+ */
+export function powPrefix(idHex: string, challenge: string): Uint8Array {
+  const id = fromHex(idHex);
+  const challengeBytes = u8(challenge);
+  const prefix = new Uint8Array(id.length + challengeBytes.length + 8);
+  prefix.set(id, 0);
+  prefix.set(challengeBytes, id.length);
+  return prefix;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Search strategies
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Search in a module worker. Resolves null if workers are unavailable
+ * (Node, SSR, CSP worker-src, the CommonJS build) or the worker posts
+ * nothing for WORKER_TIMEOUT_MS, so the caller falls back to in-thread.
+ */
+function searchInWorker(
+  request: PowSearchRequest,
+  onProgress: ((progress: ProofOfWorkProgress) => void) | undefined,
+  signal: AbortSignal | undefined
+): Promise<string | null> {
+  // The CommonJS build has no import.meta.url to find pow-worker.js
+  // next to the bundle (only the ESM build ships a usable worker)
+  const bundleUrl: string | undefined = import.meta.url;
+  if (typeof Worker === "undefined" || !bundleUrl) return Promise.resolve(null);
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL("./pow-worker.js", bundleUrl), { type: "module" });
+  } catch {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    // Reported progress proves the worker alive; a stuck one (e.g. its
+    // script never loads) is replaced by the in-thread search
+    const watch = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        finish();
+        resolve(null);
+      }, WORKER_TIMEOUT_MS);
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = (event: MessageEvent) => {
+      watch();
+      const message = event.data as
+        | { type: "progress"; hashes: number }
+        | { type: "done"; nonce: string };
+      if (message.type === "progress") {
+        onProgress?.(progressOf(message.hashes, request.difficulty));
+      } else {
+        finish();
+        resolve(message.nonce);
+      }
+    };
+    worker.onerror = (event) => {
+      // Worker script failed to load - fall back to in-thread search
+      event.preventDefault();
+      finish();
+      resolve(null);
+    };
+    worker.postMessage(request);
+    watch();
+  });
+}
+
+/** Search on the main thread, yielding between chunks. */
+async function searchInThread(
+  request: PowSearchRequest,
+  onProgress: ((progress: ProofOfWorkProgress) => void) | undefined,
+  signal: AbortSignal | undefined
+): Promise<string> {
+  const prefix = powPrefix(request.idHex, request.challenge);
+  for (let start = 0n; ; start += BigInt(POW_CHUNK_SIZE)) {
+    if (signal?.aborted) throw abortError();
+    const nonce = searchNonceRange(prefix, request.difficulty, start, POW_CHUNK_SIZE);
+    if (nonce !== null) return nonce;
+    onProgress?.(progressOf(Number(start) + POW_CHUNK_SIZE, request.difficulty));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+function hashWithNonce(prefix: Uint8Array, nonce: bigint): Uint8Array {
+  new DataView(prefix.buffer, prefix.byteOffset, prefix.byteLength).setBigUint64(
+    prefix.length - 8,
+    nonce,
+    false
+  );
+  return blake3(prefix);
+}
+
+function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+function progressOf(hashes: number, difficulty: number): ProofOfWorkProgress {
+  return { hashes, expectedHashes: 2 ** difficulty };
+}
+
+function checkDifficulty(difficulty: number): number {
+  if (!Number.isInteger(difficulty) || difficulty < 0 || difficulty > MAX_DIFFICULTY) {
+    throw new Error(`Proof-of-work difficulty must be an integer 0-${MAX_DIFFICULTY}`);
+  }
+  return difficulty;
+}
+
+function abortError(): Error {
+  const err = new Error("Proof of work aborted");
+  err.name = "AbortError";
+  return err;
+}
@@ -138,10 +138,18 @@ export function createPilotAccessClient(
       data: RequestFormData,
       kind: PilotAccessKind = "request_pilot_access"
     ): string {
-      return generateRequestId(canonicalizePilotAccessPayload(data, kind));
+      return generateRequestId(canonicalizePilotAccessPayload(data, kind), {
+        serialization: config.serialization,
+        requestIdKey: config.requestIdKey,
+      });
     },
   };
 }
 
 // Re-export types for convenience
-export type { SubmitResult, CryptoCapability } from "../types.js";
+export type {
+  SubmitResult,
+  SubmitFailure,
+  SubmitErrorCode,
+  CryptoCapability,
+} from "../types.js";
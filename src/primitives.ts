@@ -35,6 +35,15 @@ export function b64(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
+export function fromB64(s: string): Uint8Array {
+  const binary = atob(s);
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    out[i] = binary.charCodeAt(i);
+  }
+  return out;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // HEX
 // ═══════════════════════════════════════════════════════════════════════════
@@ -75,6 +84,21 @@ export function blake3(data: Uint8Array): Uint8Array {
   return nobleBlake3(data);
 }
 
+/** Incremental BLAKE3 for data hashed in pieces (e.g., streamed chunks). */
+export function blake3Hasher(): { update(data: Uint8Array): unknown; digest(): Uint8Array } {
+  return nobleBlake3.create({});
+}
+
+/** Keyed BLAKE3 (MAC mode); key must be 32 bytes. */
+export function blake3Keyed(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return nobleBlake3(data, { key });
+}
+
+/** BLAKE3 derive_key mode with a fixed, application-specific context string. */
+export function blake3DeriveKey(context: string, material: Uint8Array): Uint8Array {
+  return nobleBlake3(material, { context: u8(context) });
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // KEY DERIVATION (HKDF-SHA-256, RFC 5869)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -112,6 +136,11 @@ export function hkdfSha256(
   return out;
 }
 
+/** HKDF-SHA-256 with string salt/info, 32-byte output (pqc-shared convention). */
+export function hkdfFlex(ikm: Uint8Array, salt: string, info: string): Uint8Array {
+  return hkdfSha256(ikm, { salt: u8(salt), info: u8(info), length: 32 });
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // SYMMETRIC ENCRYPTION (NaCl secretbox = XSalsa20-Poly1305)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -124,6 +153,15 @@ export function secretboxRaw(
   return nacl.secretbox(plaintext, nonce, key);
 }
 
+/** Returns null if authentication fails. */
+export function secretboxOpenRaw(
+  key: Uint8Array,
+  ciphertext: Uint8Array,
+  nonce: Uint8Array
+): Uint8Array | null {
+  return nacl.secretbox.open(ciphertext, nonce, key);
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CONSTANTS (from canonical envelope registry)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -133,5 +171,8 @@ import { OMNI_VERSIONS } from '@omnituum/envelope-registry';
 export const ENVELOPE_VERSION = OMNI_VERSIONS.HYBRID_V1;
 export const ENVELOPE_AEAD = "xsalsa20poly1305";
 
+/** Suite identifier for X25519-only envelopes (no Kyber) */
+export const X25519_ONLY_SUITE = "x25519" as const;
+
 // Re-export nacl for X25519 operations
 export { nacl };
@@ -0,0 +1,252 @@
+/**
+ * Durable offline submission queue (IndexedDB).
+ *
+ * Only already-encrypted wire envelopes are stored — never plaintext.
+ * A queued envelope keeps its deterministic id, so delivering it later
+ * (or alongside a manual resubmission) is deduplicated by the server
+ * exactly like any other retry.
+ */
+
+import { deliverEnvelope } from "./transport.js";
+import { clearPendingSubmission, setPendingError } from "./pending.js";
+import { defaultStorage } from "./storage.js";
+import type {
+  IntakeStorage,
+  OfflineQueueConfig,
+  QueuedSubmissionOutcome,
+  RetryPolicy,
+} from "./types.js";
+
+const DEFAULT_DB_NAME = "omnituum.intake.queue";
+const DEFAULT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const STORE_NAME = "envelopes";
+const DB_VERSION = 1;
+
+/**
+ * Stored queue record
+ */
+interface QueuedSubmission {
+  /** Request id (key path) */
+  id: string;
+  /** Endpoint the envelope is POSTed to */
+  endpoint: string;
+  /** Serialized wire envelope, sent verbatim */
+  envelopeJson: string;
+  /** Pending-submission storage key to clear on delivery */
+  storageKey: string;
+  /** When the envelope was queued (ms since epoch) */
+  queuedAt: number;
+  /** Delivery attempts made by flushes */
+  attempts: number;
+}
+
+/**
+ * Options for flushing the queue
+ */
+export interface FlushOptions {
+  /** IndexedDB database name (default: "omnituum.intake.queue") */
+  dbName?: string;
+  /** Drop envelopes older than this (default: 7 days) */
+  maxAgeMs?: number;
+  /** Per-attempt network timeout in milliseconds */
+  timeoutMs?: number;
+  /** Retry policy per queued envelope (default: single attempt) */
+  retry?: RetryPolicy | false;
+  /** Called once per queued envelope with its outcome */
+  onOutcome?: (outcome: QueuedSubmissionOutcome) => void;
+  /** Pending-submission storage to clear on delivery (default: sessionStorage) */
+  storage?: IntakeStorage;
+}
+
+// In-flight flush per database (flushes never overlap)
+const activeFlushes = new Map<string, Promise<QueuedSubmissionOutcome[]>>();
+
+// Databases armed for automatic flushing (startup flush + `online` listener)
+const armedQueues = new Set<string>();
+
+/**
+ * Normalize IntakeConfig.offlineQueue (true → defaults, false/undefined → null).
+ */
+export function resolveQueueConfig(
+  config: boolean | OfflineQueueConfig | undefined
+): OfflineQueueConfig | null {
+  if (!config) return null;
+  return config === true ? {} : config;
+}
+
+/**
+ * Store an encrypted envelope for later delivery.
+ *
+ * @returns true if the envelope was persisted (false if IndexedDB is unavailable)
+ */
+export async function enqueueSubmission(
+  item: Omit<QueuedSubmission, "queuedAt" | "attempts">,
+  config: OfflineQueueConfig
+): Promise<boolean> {
+  try {
+    const db = await openQueueDb(config.dbName ?? DEFAULT_DB_NAME);
+    const record: QueuedSubmission = { ...item, queuedAt: Date.now(), attempts: 0 };
+    await runTransaction(db, "readwrite", (store) => store.put(record));
+    db.close();
+  } catch {
+    // IndexedDB unavailable (private mode, sandboxed iframe, Node)
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Start draining the offline queue: flush now (envelopes queued on an
+ * earlier page load) and again on every `online` event.
+ *
+ * submitSecureIntake() arms the queue whenever `offlineQueue` is
+ * configured (unless `autoFlush: false`); call this at app start to
+ * deliver leftovers before the next submission. Arming is once per
+ * database — later calls resolve to [] without flushing.
+ *
+ * @param config - Offline queue config (`true` for defaults)
+ * @param storage - Pending-submission storage to clear on delivery (default: sessionStorage)
+ * @returns Outcomes of the startup flush
+ */
+export function armOfflineQueue(
+  config: boolean | OfflineQueueConfig = true,
+  storage?: IntakeStorage
+): Promise<QueuedSubmissionOutcome[]> {
+  const queueConfig = resolveQueueConfig(config);
+  if (!queueConfig) return Promise.resolve([]);
+  const dbName = queueConfig.dbName ?? DEFAULT_DB_NAME;
+  if (armedQueues.has(dbName)) return Promise.resolve([]);
+  armedQueues.add(dbName);
+
+  const flush = () =>
+    flushQueuedSubmissions({
+      dbName,
+      maxAgeMs: queueConfig.maxAgeMs,
+      timeoutMs: queueConfig.timeoutMs,
+      retry: queueConfig.retry,
+      onOutcome: queueConfig.onOutcome,
+      storage,
+    });
+
+  if (typeof window !== "undefined" && typeof window.addEventListener === "function") {
+    window.addEventListener("online", () => {
+      flush().catch(() => {
+        // Queue stays intact; next online event or manual flush retries
+      });
+    });
+  }
+  return flush();
+}
+
+/**
+ * Deliver every queued envelope.
+ *
+ * Delivered and rejected (4xx) envelopes are removed; transient failures
+ * stay queued for the next flush. Safe to call at any time — concurrent
+ * calls share one flush.
+ *
+ * @param opts - Flush options
+ * @returns One outcome per queued envelope
+ */
+export function flushQueuedSubmissions(
+  opts: FlushOptions = {}
+): Promise<QueuedSubmissionOutcome[]> {
+  const dbName = opts.dbName ?? DEFAULT_DB_NAME;
+  const active = activeFlushes.get(dbName);
+  if (active) return active;
+
+  const flush = runFlush(dbName, opts).finally(() => {
+    activeFlushes.delete(dbName);
+  });
+  activeFlushes.set(dbName, flush);
+  return flush;
+}
+
+async function runFlush(
+  dbName: string,
+  opts: FlushOptions
+): Promise<QueuedSubmissionOutcome[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  const db = await openQueueDb(dbName);
+  const outcomes: QueuedSubmissionOutcome[] = [];
+  const maxAgeMs = opts.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  const storage = opts.storage ?? defaultStorage();
+
+  try {
+    const items = await runTransaction<QueuedSubmission[]>(db, "readonly", (store) =>
+      store.getAll()
+    );
+
+    for (const item of items) {
+      let outcome: QueuedSubmissionOutcome;
+
+      if (Date.now() - item.queuedAt > maxAgeMs) {
+        await runTransaction(db, "readwrite", (store) => store.delete(item.id));
+        outcome = { id: item.id, status: "expired" };
+      } else {
+        const result = await deliverEnvelope(item.endpoint, item.envelopeJson, {
+          timeoutMs: opts.timeoutMs,
+          retry: opts.retry,
+        });
+
+        if (result.ok || result.code === "client_error" || result.code === "invalid_response") {
+          await runTransaction(db, "readwrite", (store) => store.delete(item.id));
+          await clearPendingSubmission(item.id, { storageKey: item.storageKey, storage });
+          outcome = { id: item.id, status: result.ok ? "delivered" : "rejected", result };
+        } else {
+          const updated: QueuedSubmission = { ...item, attempts: item.attempts + 1 };
+          await runTransaction(db, "readwrite", (store) => store.put(updated));
+          await setPendingError(item.id, result.code, { storageKey: item.storageKey, storage });
+          outcome = { id: item.id, status: "deferred", result };
+        }
+      }
+
+      outcomes.push(outcome);
+      opts.onOutcome?.(outcome);
+    }
+  } finally {
+    db.close();
+  }
+
+  return outcomes;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// IndexedDB helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function openQueueDb(dbName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error("IndexedDB unavailable"));
+      return;
+    }
+    const request = indexedDB.open(dbName, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runTransaction<T = unknown>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  op: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = op(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
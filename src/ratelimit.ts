@@ -1,57 +1,190 @@
 /**
- * Client-side rate limiting
+ * Client-side rate limiting (token bucket, per endpoint/form)
+ *
+ * Each bucket holds up to `max` tokens and refills continuously at
+ * `max / windowMs`. A submission consumes a token when it is attempted
+ * (not only when it succeeds), and a server 429 Retry-After blocks the
+ * bucket until the server's deadline. A submission that fails before
+ * anything is sent (bad key, size guard, upload failure) gets its token back.
+ *
+ * State lives in memory by default; with `persist: true` it goes through
+ * the IntakeStorage adapter, so reloading the page doesn't reset it.
  */
 
-import type { RateLimitConfig } from "./types.js";
+import type { IntakeStorage, RateLimitConfig } from "./types.js";
 
 const DEFAULT_WINDOW_MS = 60 * 1000; // 1 minute
 const DEFAULT_MAX = 2;
+const PERSIST_KEY_PREFIX = "loggie.intake.ratelimit:";
 
-// Per-instance tracking (resets on page reload)
-const submitTimestamps: number[] = [];
+/**
+ * Outcome of a rate-limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Milliseconds until the next submission is allowed (0 if allowed) */
+  retryAfterMs: number;
+}
+
+interface BucketState {
+  /** Tokens available at `updatedAt` */
+  tokens: number;
+  /** Last refill computation (ms since epoch) */
+  updatedAt: number;
+  /** Server-imposed block (Retry-After), ms since epoch */
+  blockedUntil?: number;
+}
+
+// In-memory buckets (resets on page reload unless persisted)
+const buckets = new Map<string, BucketState>();
 
 /**
- * Check if rate limit allows submission.
+ * Check the bucket and, if allowed, consume one token.
  *
- * @param config - Rate limit configuration
- * @param isRetry - If true, bypass rate limit (retries are always allowed)
- * @returns true if submission is allowed
+ * @param config - Rate limit configuration (false disables limiting)
+ * @param bucketKey - Bucket id (config.key or the endpoint)
+ * @param isRetry - Retries skip the token check (server blocks still apply)
+ * @param storage - Storage adapter, used when config.persist is true
  */
-export function checkRateLimit(
+export async function acquireRateLimit(
   config: RateLimitConfig | false | undefined,
-  isRetry: boolean
-): boolean {
+  bucketKey: string,
+  isRetry: boolean,
+  storage: IntakeStorage
+): Promise<RateLimitResult> {
   // Disabled
-  if (config === false) return true;
-
-  // Retries bypass rate limit
-  if (isRetry) return true;
+  if (config === false) return { allowed: true, retryAfterMs: 0 };
 
-  const windowMs = config?.windowMs ?? DEFAULT_WINDOW_MS;
   const max = config?.max ?? DEFAULT_MAX;
+  const windowMs = config?.windowMs ?? DEFAULT_WINDOW_MS;
+  const key = config?.key ?? bucketKey;
+  const persist = config?.persist === true;
   const now = Date.now();
 
-  // Remove timestamps outside window
-  while (
-    submitTimestamps.length > 0 &&
-    submitTimestamps[0] < now - windowMs
-  ) {
-    submitTimestamps.shift();
+  const state = refill(await loadBucket(key, persist, storage, max, now), max, windowMs, now);
+
+  if (state.blockedUntil !== undefined && state.blockedUntil > now) {
+    return { allowed: false, retryAfterMs: state.blockedUntil - now };
+  }
+
+  // Retries bypass the token check (they reuse an id the server may already have)
+  if (isRetry) return { allowed: true, retryAfterMs: 0 };
+
+  if (state.tokens < 1) {
+    const refillPerMs = max / windowMs;
+    return { allowed: false, retryAfterMs: Math.ceil((1 - state.tokens) / refillPerMs) };
   }
 
-  return submitTimestamps.length < max;
+  await saveBucket(key, persist, storage, { ...state, tokens: state.tokens - 1 });
+  return { allowed: true, retryAfterMs: 0 };
 }
 
 /**
- * Record a successful submission for rate limiting.
+ * Return the token taken by acquireRateLimit (submission failed locally,
+ * before the envelope was sent).
  */
-export function recordSubmit(): void {
-  submitTimestamps.push(Date.now());
+export async function refundRateLimit(
+  config: RateLimitConfig | false | undefined,
+  bucketKey: string,
+  storage: IntakeStorage
+): Promise<void> {
+  if (config === false) return;
+
+  const max = config?.max ?? DEFAULT_MAX;
+  const windowMs = config?.windowMs ?? DEFAULT_WINDOW_MS;
+  const key = config?.key ?? bucketKey;
+  const persist = config?.persist === true;
+  const now = Date.now();
+
+  const state = refill(await loadBucket(key, persist, storage, max, now), max, windowMs, now);
+  await saveBucket(key, persist, storage, { ...state, tokens: Math.min(max, state.tokens + 1) });
+}
+
+/**
+ * Block a bucket until the server's Retry-After deadline (HTTP 429).
+ */
+export async function applyServerRetryAfter(
+  config: RateLimitConfig | false | undefined,
+  bucketKey: string,
+  retryAfterMs: number,
+  storage: IntakeStorage
+): Promise<void> {
+  if (config === false) return;
+
+  const max = config?.max ?? DEFAULT_MAX;
+  const key = config?.key ?? bucketKey;
+  const persist = config?.persist === true;
+  const now = Date.now();
+
+  const state = await loadBucket(key, persist, storage, max, now);
+  const blockedUntil = Math.max(state.blockedUntil ?? 0, now + retryAfterMs);
+  await saveBucket(key, persist, storage, { ...state, blockedUntil });
 }
 
 /**
  * Reset rate limit state (for testing).
+ * Clears all in-memory buckets; pass `storage` and `key` to clear a
+ * persisted bucket too.
  */
-export function resetRateLimit(): void {
-  submitTimestamps.length = 0;
+export function resetRateLimit(opts?: {
+  storage?: IntakeStorage;
+  key?: string;
+}): void | Promise<void> {
+  buckets.clear();
+  if (opts?.storage && opts.key) {
+    return opts.storage.remove(PERSIST_KEY_PREFIX + opts.key);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Bucket state
+// ═══════════════════════════════════════════════════════════════════════════
+
+function refill(state: BucketState, max: number, windowMs: number, now: number): BucketState {
+  const elapsed = Math.max(0, now - state.updatedAt);
+  const tokens = Math.min(max, state.tokens + (elapsed * max) / windowMs);
+  return { ...state, tokens, updatedAt: now };
+}
+
+async function loadBucket(
+  key: string,
+  persist: boolean,
+  storage: IntakeStorage,
+  max: number,
+  now: number
+): Promise<BucketState> {
+  const fresh: BucketState = { tokens: max, updatedAt: now };
+
+  if (!persist) return buckets.get(key) ?? fresh;
+
+  try {
+    const raw = await storage.get(PERSIST_KEY_PREFIX + key);
+    if (!raw) return fresh;
+    const parsed = JSON.parse(raw) as BucketState;
+    if (typeof parsed.tokens !== "number" || typeof parsed.updatedAt !== "number") {
+      return fresh;
+    }
+    return parsed;
+  } catch {
+    // Storage unavailable - use this page's in-memory state
+    return buckets.get(key) ?? fresh;
+  }
+}
+
+async function saveBucket(
+  key: string,
+  persist: boolean,
+  storage: IntakeStorage,
+  state: BucketState
+): Promise<void> {
+  if (!persist) {
+    buckets.set(key, state);
+    return;
+  }
+  try {
+    await storage.set(PERSIST_KEY_PREFIX + key, JSON.stringify(state));
+  } catch {
+    // Storage unavailable - fall back to in-memory for this page
+    buckets.set(key, state);
+  }
 }
@@ -0,0 +1,381 @@
+/**
+ * Declarative intake schemas.
+ *
+ * Generates `canonicalize`, per-field validation and a `maxPlaintextBytes`
+ * bound from a single field map, reusing the helpers in ./normalize.ts so
+ * every form normalizes the same field kind the same way.
+ *
+ * @example
+ * ```ts
+ * const contactSchema = defineIntakeSchema({
+ *   kind: "contact",
+ *   fields: {
+ *     email: "email",
+ *     tags: "stringSet",
+ *     message: field.multiline({ maxLength: 4000 }),
+ *     timeline: field.enum(["now", "q3", "later"]),
+ *   },
+ * });
+ *
+ * const check = contactSchema.validate(formData);
+ * if (!check.valid) showErrors(check.errors);
+ *
+ * await submitSecureIntake(formData, contactSchema.toIntakeConfig({ endpoint, publicKeys }));
+ * ```
+ */
+
+import {
+  normalizeMultiline,
+  normalizeEmail,
+  normalizeStringArray,
+} from "./normalize.js";
+import { paddedLength } from "./padding.js";
+import { randomIdOverheadBytes } from "./id.js";
+import { botScoreOverheadBytes } from "./botsignals.js";
+import { attachmentsOverheadBytes } from "./attachments.js";
+import type { IntakeConfig } from "./types.js";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Field definitions
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Field kinds usable as shorthand strings */
+export type FieldKind = "string" | "email" | "multiline" | "stringSet";
+
+/** Options shared by all field kinds */
+export interface FieldOptions {
+  /** Reject empty values (default: true) */
+  required?: boolean;
+  /** Max length in UTF-16 code units after normalization (per item for stringSet) */
+  maxLength?: number;
+}
+
+/** Options for stringSet fields */
+export interface StringSetOptions extends FieldOptions {
+  /** Max number of distinct items */
+  maxItems?: number;
+}
+
+export interface TextFieldSpec extends FieldOptions {
+  type: "string" | "email" | "multiline";
+}
+
+export interface StringSetFieldSpec extends StringSetOptions {
+  type: "stringSet";
+}
+
+export interface EnumFieldSpec<V extends string = string> extends FieldOptions {
+  type: "enum";
+  values: readonly V[];
+}
+
+export type FieldSpec = TextFieldSpec | StringSetFieldSpec | EnumFieldSpec;
+
+/** A field is either a shorthand kind or a full spec */
+export type FieldDef = FieldKind | FieldSpec;
+
+/**
+ * Field spec builders (for options beyond the shorthand strings).
+ */
+export const field = {
+  string(opts: FieldOptions = {}): TextFieldSpec {
+    return { type: "string", ...opts };
+  },
+  email(opts: FieldOptions = {}): TextFieldSpec {
+    return { type: "email", ...opts };
+  },
+  multiline(opts: FieldOptions = {}): TextFieldSpec {
+    return { type: "multiline", ...opts };
+  },
+  stringSet(opts: StringSetOptions = {}): StringSetFieldSpec {
+    return { type: "stringSet", ...opts };
+  },
+  enum<const V extends string>(
+    values: readonly V[],
+    opts: FieldOptions = {}
+  ): EnumFieldSpec<V> {
+    return { type: "enum", values, ...opts };
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Schema types
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Value type of a field in form data and canonical output */
+export type FieldValue<F extends FieldDef> = F extends "stringSet" | StringSetFieldSpec
+  ? string[]
+  : F extends EnumFieldSpec<infer V>
+    ? V
+    : string;
+
+/** Form data accepted by a schema */
+export type SchemaInput<F extends Record<string, FieldDef>> = {
+  [K in keyof F]: FieldValue<F[K]>;
+};
+
+/** Canonicalized payload produced by a schema */
+export type SchemaOutput<
+  K extends string,
+  F extends Record<string, FieldDef>,
+> = { kind: K } & SchemaInput<F>;
+
+/** Validation error codes */
+export type FieldErrorCode =
+  | "required"
+  | "invalid_type"
+  | "invalid_email"
+  | "invalid_characters"
+  | "not_allowed"
+  | "too_long"
+  | "too_many_items";
+
+export interface FieldError {
+  code: FieldErrorCode;
+  message: string;
+}
+
+export interface SchemaValidationResult<F extends Record<string, FieldDef>> {
+  valid: boolean;
+  /** Per-field errors (only fields that failed) */
+  errors: Partial<Record<keyof F, FieldError>>;
+}
+
+export interface IntakeSchemaDefinition<
+  K extends string,
+  F extends Record<string, FieldDef>,
+> {
+  /** Request kind, stored as `kind` in the canonical payload */
+  kind: K;
+  /** Field map (canonical key order follows definition order) */
+  fields: F;
+}
+
+export interface IntakeSchema<
+  K extends string,
+  F extends Record<string, FieldDef>,
+> {
+  readonly kind: K;
+  readonly fields: F;
+
+  /**
+   * Upper bound on the serialized canonical payload in bytes, or undefined
+   * if any field has no max length. Feed into IntakeConfig.maxPlaintextBytes.
+   */
+  readonly maxPlaintextBytes: number | undefined;
+
+  /** Normalize form data into the canonical payload (no validation). */
+  canonicalize(data: SchemaInput<F>): SchemaOutput<K, F>;
+
+  /** Validate form data, reporting errors per field. */
+  validate(data: unknown): SchemaValidationResult<F>;
+
+  /**
+   * Build an IntakeConfig whose `canonicalize` validates then normalizes
+   * (throws on invalid data, so invalid payloads are never encrypted).
+   */
+  toIntakeConfig(base: Omit<IntakeConfig, "canonicalize">): IntakeConfig;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Builder
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Define an intake schema.
+ *
+ * @param definition - Request kind and field map
+ * @returns Schema with canonicalize, validate and size bound
+ */
+export function defineIntakeSchema<
+  const K extends string,
+  const F extends Record<string, FieldDef>,
+>(definition: IntakeSchemaDefinition<K, F>): IntakeSchema<K, F> {
+  const specs = Object.entries(definition.fields).map(
+    ([name, def]) => [name, toSpec(def)] as const
+  );
+
+  if (specs.some(([name]) => name === "kind")) {
+    throw new Error('defineIntakeSchema: "kind" is reserved for the request kind');
+  }
+
+  const schema: IntakeSchema<K, F> = {
+    kind: definition.kind,
+    fields: definition.fields,
+    maxPlaintextBytes: computeMaxPlaintextBytes(definition.kind, specs),
+
+    canonicalize(data) {
+      const input = data as Record<string, unknown>;
+      const out: Record<string, unknown> = { kind: definition.kind };
+      for (const [name, spec] of specs) {
+        out[name] = normalizeField(spec, input[name]);
+      }
+      return out as SchemaOutput<K, F>;
+    },
+
+    validate(data) {
+      const errors: Partial<Record<keyof F, FieldError>> = {};
+      const input =
+        data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+      for (const [name, spec] of specs) {
+        const error = validateField(spec, input[name]);
+        if (error) errors[name as keyof F] = error;
+      }
+      return { valid: Object.keys(errors).length === 0, errors };
+    },
+
+    toIntakeConfig(base) {
+      // The size guard counts the reserved fields added to the payload
+      // and padding, so widen the bound the same way
+      let bound = schema.maxPlaintextBytes;
+      if (bound !== undefined && base.idStrategy === "random") {
+        bound += randomIdOverheadBytes();
+      }
+      if (bound !== undefined && base.botDetection?.includeScore) {
+        bound += botScoreOverheadBytes();
+      }
+      if (bound !== undefined && base.attachments) {
+        bound += attachmentsOverheadBytes(base.attachments, base.suite);
+      }
+      const paddedBound =
+        bound !== undefined && base.padding ? paddedLength(bound, base.padding) ?? bound : bound;
+      return {
+        ...base,
+        maxPlaintextBytes: base.maxPlaintextBytes ?? paddedBound,
+        canonicalize: (payload) => {
+          const result = schema.validate(payload);
+          if (!result.valid) {
+            const fields = Object.keys(result.errors).join(", ");
+            throw new Error(`Invalid ${definition.kind} submission: ${fields}`);
+          }
+          return schema.canonicalize(payload as SchemaInput<F>);
+        },
+      };
+    },
+  };
+
+  return schema;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Normalization + validation per field kind
+// ═══════════════════════════════════════════════════════════════════════════
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Control characters other than \t and \n (\r is normalized away for multiline).
+// Rejecting them keeps JSON escaping to ≤ 3 bytes per code unit.
+const CONTROL_CHARS = /[\u0000-\u0008\u000b-\u001f\u007f]/;
+
+function toSpec(def: FieldDef): FieldSpec {
+  return typeof def === "string" ? { type: def } : def;
+}
+
+function normalizeText(spec: FieldSpec, value: string): string {
+  switch (spec.type) {
+    case "email":
+      return normalizeEmail(value);
+    case "multiline":
+      return normalizeMultiline(value);
+    default:
+      return value.trim();
+  }
+}
+
+function normalizeField(spec: FieldSpec, value: unknown): unknown {
+  if (spec.type === "stringSet") {
+    const items = Array.isArray(value) ? value : [];
+    const trimmed = items.map((item) => String(item).trim()).filter(Boolean);
+    return normalizeStringArray([...new Set(trimmed)]);
+  }
+  return normalizeText(spec, typeof value === "string" ? value : "");
+}
+
+function validateField(spec: FieldSpec, value: unknown): FieldError | null {
+  const required = spec.required !== false;
+
+  if (spec.type === "stringSet") {
+    if (value !== undefined && !Array.isArray(value)) {
+      return { code: "invalid_type", message: "Expected a list of values" };
+    }
+    if (Array.isArray(value) && value.some((item) => typeof item !== "string")) {
+      return { code: "invalid_type", message: "Expected a list of strings" };
+    }
+    const items = normalizeField(spec, value) as string[];
+    if (required && items.length === 0) {
+      return { code: "required", message: "Select at least one value" };
+    }
+    if (spec.maxItems !== undefined && items.length > spec.maxItems) {
+      return { code: "too_many_items", message: `At most ${spec.maxItems} values allowed` };
+    }
+    for (const item of items) {
+      const error = checkText(spec, item);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  if (value !== undefined && typeof value !== "string") {
+    return { code: "invalid_type", message: "Expected text" };
+  }
+  const normalized = normalizeField(spec, value) as string;
+  if (normalized === "") {
+    return required ? { code: "required", message: "This field is required" } : null;
+  }
+  if (spec.type === "email" && !EMAIL_PATTERN.test(normalized)) {
+    return { code: "invalid_email", message: "Enter a valid email address" };
+  }
+  if (spec.type === "enum" && !spec.values.includes(normalized)) {
+    return { code: "not_allowed", message: "Choose one of the listed options" };
+  }
+  return checkText(spec, normalized);
+}
+
+function checkText(spec: FieldSpec, value: string): FieldError | null {
+  if (CONTROL_CHARS.test(value)) {
+    return { code: "invalid_characters", message: "Contains unsupported characters" };
+  }
+  if (spec.maxLength !== undefined && value.length > spec.maxLength) {
+    return { code: "too_long", message: `Must be at most ${spec.maxLength} characters` };
+  }
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Size bound
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Worst-case serialized bytes per UTF-16 code unit (UTF-8, no control chars) */
+const MAX_BYTES_PER_CODE_UNIT = 3;
+
+function stringBound(maxLength: number): number {
+  return maxLength * MAX_BYTES_PER_CODE_UNIT + 2; // + quotes
+}
+
+function keyBound(name: string): number {
+  return stringBound(name.length) + 2; // + ":" and ","
+}
+
+function computeMaxPlaintextBytes(
+  kind: string,
+  specs: ReadonlyArray<readonly [string, FieldSpec]>
+): number | undefined {
+  let total = 2 + keyBound("kind") + stringBound(kind.length); // {} + kind
+
+  for (const [name, spec] of specs) {
+    let valueBound: number;
+    if (spec.type === "enum") {
+      valueBound = stringBound(Math.max(0, ...spec.values.map((v) => v.length)));
+    } else if (spec.maxLength === undefined) {
+      return undefined;
+    } else if (spec.type === "stringSet") {
+      if (spec.maxItems === undefined) return undefined;
+      valueBound = 2 + spec.maxItems * (stringBound(spec.maxLength) + 1); // [] + commas
+    } else {
+      valueBound = stringBound(spec.maxLength);
+    }
+    total += keyBound(name) + valueBound;
+  }
+
+  return total;
+}
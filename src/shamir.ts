@@ -0,0 +1,106 @@
+/**
+ * Shamir secret sharing over GF(256).
+ *
+ * Each byte of the secret is the constant term of its own random
+ * polynomial of degree k-1; share x holds the polynomials evaluated at x.
+ * Any k shares recover the secret by Lagrange interpolation at 0, fewer
+ * reveal nothing about it. Field arithmetic uses the AES polynomial
+ * (x^8 + x^4 + x^3 + x + 1) with log/exp tables.
+ */
+
+import { nacl } from "./primitives.js";
+
+/** One share: x-coordinate (1..255) and one byte per secret byte */
+export interface SecretShare {
+  x: number;
+  y: Uint8Array;
+}
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+  let v = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = EXP[i + 255] = v;
+    LOG[v] = i;
+    // v *= 3 (generator)
+    v ^= ((v << 1) ^ (v & 0x80 ? 0x1b : 0)) & 0xff;
+  }
+}
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split a secret into n shares, any k of which recover it.
+ *
+ * @param secret - Secret bytes (e.g., a 32-byte content key)
+ * @param k - Shares needed to recover (1..n)
+ * @param n - Shares to produce (k..255)
+ * @returns Shares with x = 1..n
+ * @throws If k or n is out of range
+ */
+export function splitSecret(secret: Uint8Array, k: number, n: number): SecretShare[] {
+  if (!Number.isInteger(k) || !Number.isInteger(n) || k < 1 || k > n || n > 255) {
+    throw new Error(`Invalid threshold ${k} of ${n}`);
+  }
+  const coefficients = nacl.randomBytes(secret.length * (k - 1));
+  const shares: SecretShare[] = [];
+  for (let x = 1; x <= n; x++) {
+    const y = new Uint8Array(secret.length);
+    for (let b = 0; b < secret.length; b++) {
+      // Horner: a_{k-1} x^{k-1} + … + a_1 x + secret[b]
+      let acc = 0;
+      for (let c = k - 2; c >= 0; c--) {
+        acc = mul(acc, x) ^ coefficients[b * (k - 1) + c];
+      }
+      y[b] = mul(acc, x) ^ secret[b];
+    }
+    shares.push({ x, y });
+  }
+  return shares;
+}
+
+/**
+ * Recover a secret from k (or more) shares.
+ *
+ * Fewer than k shares yield an unrelated value, not an error — the
+ * caller authenticates the result (e.g., by decrypting with it).
+ *
+ * @throws If shares are empty, have duplicate or invalid x, or differ in length
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error("No shares to combine");
+  }
+  const length = shares[0].y.length;
+  const xs = new Set<number>();
+  for (const share of shares) {
+    if (!Number.isInteger(share.x) || share.x < 1 || share.x > 255 || xs.has(share.x)) {
+      throw new Error(`Invalid or duplicate share index ${share.x}`);
+    }
+    if (share.y.length !== length) {
+      throw new Error("Shares differ in length");
+    }
+    xs.add(share.x);
+  }
+
+  // Lagrange basis at 0: l_i = Π_{j≠i} x_j / (x_j - x_i); subtraction is XOR
+  const basis = shares.map((si) =>
+    shares.reduce((l, sj) => (sj === si ? l : mul(l, div(sj.x, sj.x ^ si.x))), 1)
+  );
+  const secret = new Uint8Array(length);
+  for (let b = 0; b < length; b++) {
+    let acc = 0;
+    shares.forEach((share, i) => {
+      acc ^= mul(share.y[b], basis[i]);
+    });
+    secret[b] = acc;
+  }
+  return secret;
+}
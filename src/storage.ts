@@ -0,0 +1,83 @@
+/**
+ * Storage adapters for pending-submission tracking.
+ *
+ * Web Storage is resolved lazily on every call, so importing this module
+ * is safe in Node, SSR and sandboxed iframes where `sessionStorage` is
+ * missing or throws on access.
+ */
+
+import type { IntakeStorage } from "./types.js";
+
+/**
+ * sessionStorage adapter (survives reloads, cleared when the tab closes).
+ */
+export function sessionStorageAdapter(): IntakeStorage {
+  return webStorageAdapter(() => globalThis.sessionStorage);
+}
+
+/**
+ * localStorage adapter (survives tab close; shared across tabs).
+ */
+export function localStorageAdapter(): IntakeStorage {
+  return webStorageAdapter(() => globalThis.localStorage);
+}
+
+/**
+ * In-memory adapter (per instance; useful for tests, Node and SSR).
+ */
+export function createMemoryStorage(): IntakeStorage {
+  const items = new Map<string, string>();
+  return {
+    get: (key) => items.get(key) ?? null,
+    set: (key, value) => {
+      items.set(key, value);
+    },
+    remove: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/** Shared default instances (stable identity for per-storage locking) */
+let defaultSessionStorage: IntakeStorage | null = null;
+let fallbackStorage: IntakeStorage | null = null;
+
+/**
+ * Default storage: sessionStorage where it works, otherwise a
+ * process-wide memory store (so retry tracking still works in-page).
+ */
+export function defaultStorage(): IntakeStorage {
+  if (isWebStorageUsable(() => globalThis.sessionStorage)) {
+    defaultSessionStorage ??= sessionStorageAdapter();
+    return defaultSessionStorage;
+  }
+  fallbackStorage ??= createMemoryStorage();
+  return fallbackStorage;
+}
+
+function webStorageAdapter(resolve: () => Storage | undefined): IntakeStorage {
+  return {
+    get: (key) => resolveOrThrow(resolve).getItem(key),
+    set: (key, value) => resolveOrThrow(resolve).setItem(key, value),
+    remove: (key) => resolveOrThrow(resolve).removeItem(key),
+  };
+}
+
+function resolveOrThrow(resolve: () => Storage | undefined): Storage {
+  const storage = resolve();
+  if (!storage) throw new Error("Web Storage unavailable");
+  return storage;
+}
+
+function isWebStorageUsable(resolve: () => Storage | undefined): boolean {
+  try {
+    const storage = resolve();
+    if (!storage) return false;
+    const probe = "__omnituum_intake_probe__";
+    storage.setItem(probe, "1");
+    storage.removeItem(probe);
+    return true;
+  } catch {
+    return false;
+  }
+}
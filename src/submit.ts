@@ -3,34 +3,65 @@
  *
  * Zero top-level imports from @omnituum/pqc-shared.
  * All primitives come from local ./primitives.ts (pure JS).
- * Hybrid encryption is lazy-loaded via ./hybrid-lazy.ts.
+ * Hybrid encryption is lazy-loaded via ./hybrid-lazy.ts (Kyber WASM) or
+ * ./mlkem.ts (pure-JS ML-KEM).
  */
 
-import {
-  nacl,
-  rand32,
-  rand24,
-  b64,
-  toHex,
-  fromHex,
-  hkdfSha256,
-  u8,
-  secretboxRaw,
-  ENVELOPE_VERSION,
-  ENVELOPE_AEAD,
-} from "./primitives.js";
-import { tryHybridEncryptLazy } from "./hybrid-lazy.js";
+import { ENVELOPE_AEAD, X25519_ONLY_SUITE } from "./primitives.js";
+import { encryptPlaintext, encryptOffThread } from "./encrypt.js";
+import type { EncryptRequest } from "./encrypt.js";
+import type { HybridEngine } from "./mlkem.js";
 import { setCachedKyberStatus } from "./capability.js";
-import type { IntakeConfig, SubmitOptions, SubmitResult, DowngradeEvent, DowngradeReason } from "./types.js";
+import type {
+  AttachmentRef,
+  IntakeConfig,
+  IntakeWireEnvelope,
+  OmniMultiRecipientV1,
+  OmniThresholdV1,
+  ProofOfWorkToken,
+  RecipientPublicKeys,
+  ThresholdPublicKeys,
+  SubmitOptions,
+  SubmitResult,
+  DowngradeEvent,
+  DowngradeReason,
+} from "./types.js";
 import type { OmniHybridV1 } from "@omnituum/envelope-registry";
-import { generateRequestId } from "./id.js";
+import {
+  generateRequestId,
+  serializeCanonicalPayload,
+  createIdempotencyKey,
+  RANDOM_ID_FIELD,
+} from "./id.js";
 import { checkCryptoCapability } from "./capability.js";
 import {
-  getPendingId,
-  setPendingId,
+  getPendingSubmission,
+  findPendingByContent,
+  markPendingAttempt,
+  setPendingError,
   clearPendingSubmission,
 } from "./pending.js";
-import { checkRateLimit, recordSubmit } from "./ratelimit.js";
+import { acquireRateLimit, applyServerRetryAfter, refundRateLimit } from "./ratelimit.js";
+import { submitFailure } from "./errors.js";
+import { deliverEnvelope } from "./transport.js";
+import { resolveQueueConfig, enqueueSubmission, armOfflineQueue } from "./queue.js";
+import { defaultStorage } from "./storage.js";
+import { selectPublicKey } from "./keyring.js";
+import type { SelectedPublicKey } from "./keyring.js";
+import { isMultiRecipient } from "./multi-recipient.js";
+import { isThreshold } from "./threshold.js";
+import { isKeysetSource, loadKeyset } from "./keyset.js";
+import { checkKyberKey, checkPublicKeys, checkThreshold } from "./validate.js";
+import { fetchProofOfWorkChallenge, solveProofOfWork } from "./pow.js";
+import { scoreBotSignals, fakeResponseDelay, BOT_SCORE_FIELD } from "./botsignals.js";
+import {
+  uploadAttachment,
+  attachmentLimits,
+  placeholderAttachmentRef,
+  ATTACHMENTS_FIELD,
+} from "./attachments.js";
+import { padPlaintext } from "./padding.js";
+import { createEnvelopeHeader } from "./header.js";
 
 // Defaults
 const DEFAULT_VERSION = "loggie.intake.v1";
@@ -43,123 +74,438 @@ const DEFAULT_MAX_ENVELOPE = 56 * 1024; // 56KB
  * @param payload - Raw payload data (will be canonicalized by config.canonicalize)
  * @param config - Intake configuration
  * @param opts - Submission options
- * @returns Submission result
+ * @returns Submission result (failures carry a typed `code`)
  */
 export async function submitSecureIntake(
   payload: unknown,
   config: IntakeConfig,
   opts: SubmitOptions = {}
 ): Promise<SubmitResult> {
+  // Set while a rate-limit token is held for an envelope not yet sent
+  let refundToken: (() => Promise<void>) | undefined;
   try {
-    // Honeypot check - bots often fill hidden fields
-    if (opts.honeypot) {
-      return { ok: true, id: "", status: "created" };
+    // Bot signals (honeypot counts as one). Scored before the payload is
+    // touched, so a filtered bot can't tell from a payload error either.
+    const botScore =
+      opts.botSignals !== undefined || opts.honeypot !== undefined
+        ? scoreBotSignals(
+            {
+              ...opts.botSignals,
+              honeypots: [...(opts.botSignals?.honeypots ?? []), opts.honeypot],
+            },
+            config.botDetection
+          )
+        : undefined;
+    const includeBotScore = botScore !== undefined && config.botDetection?.includeScore === true;
+
+    // Suspected bot: realistic fake success (random 64-hex id), nothing is sent
+    if (botScore?.suspicious) {
+      await fakeResponseDelay(config.botDetection);
+      return { ok: true, id: createIdempotencyKey(), status: "created" };
     }
-
-    // Canonicalize payload
-    const canonicalized = config.canonicalize(payload);
-
-    // Generate deterministic ID
-    const id = generateRequestId(canonicalized);
+    const attachments = opts.attachments ?? [];
 
     // Get config values with defaults
     const storageKey = config.storageKey ?? "loggie.intake.pending";
-    const pendingTtlMs = config.pendingTtlMs ?? 5 * 60 * 1000;
     const maxPlaintext = config.maxPlaintextBytes ?? DEFAULT_MAX_PLAINTEXT;
     const maxEnvelope = config.maxEnvelopeBytes ?? DEFAULT_MAX_ENVELOPE;
     const version = config.version ?? DEFAULT_VERSION;
+    const storage = config.storage ?? defaultStorage();
+    const pendingStore = { storageKey, pendingTtlMs: config.pendingTtlMs, storage };
+    const randomIds = config.idStrategy === "random";
+
+    // Deliver envelopes queued on an earlier page load, then on `online`
+    const queueConfig = resolveQueueConfig(config.offlineQueue);
+    if (queueConfig && queueConfig.autoFlush !== false) {
+      armOfflineQueue(
+        {
+          ...queueConfig,
+          timeoutMs: queueConfig.timeoutMs ?? opts.timeoutMs,
+          retry: queueConfig.retry ?? opts.retry,
+        },
+        storage
+      ).catch(() => {
+        // IndexedDB unavailable or flush failed; the queue stays intact
+      });
+    }
+
+    // Canonicalize payload and generate the content ID
+    let canonicalized: Record<string, unknown>;
+    let contentId: string;
+    try {
+      canonicalized = config.canonicalize(payload);
+      if (randomIds && RANDOM_ID_FIELD in canonicalized) {
+        throw new Error(`"${RANDOM_ID_FIELD}" is reserved in idStrategy "random"`);
+      }
+      if (includeBotScore && BOT_SCORE_FIELD in canonicalized) {
+        throw new Error(`"${BOT_SCORE_FIELD}" is reserved with botDetection.includeScore`);
+      }
+      if (attachments.length > 0 && ATTACHMENTS_FIELD in canonicalized) {
+        throw new Error(`"${ATTACHMENTS_FIELD}" is reserved when sending attachments`);
+      }
+      contentId = generateRequestId(canonicalized, {
+        serialization: config.serialization,
+        requestIdKey: config.requestIdKey,
+      });
+    } catch (err) {
+      return submitFailure("invalid_payload", {
+        error: err instanceof Error ? err.message : "Submission data is invalid.",
+      });
+    }
+
+    if (opts.idempotencyKey !== undefined) {
+      if (!randomIds) {
+        return submitFailure("invalid_payload", {
+          error: 'idempotencyKey requires idStrategy: "random"',
+        });
+      }
+      if (!/^[0-9a-f]{64}$/.test(opts.idempotencyKey)) {
+        return submitFailure("invalid_payload", {
+          error: "idempotencyKey must be 64-char lowercase hex",
+        });
+      }
+    }
+
+    if (attachments.length > 0) {
+      if (!config.attachments) {
+        return submitFailure("invalid_payload", {
+          error: "attachments require config.attachments",
+        });
+      }
+      const { maxBytes, maxCount } = attachmentLimits(config.attachments);
+      if (attachments.length > maxCount) {
+        return submitFailure("invalid_payload", {
+          error: `Too many attachments (${attachments.length}). The limit is ${maxCount}.`,
+        });
+      }
+      const index = attachments.findIndex((file) => file.size > maxBytes);
+      if (index !== -1) {
+        return submitFailure("attachment_too_large", {
+          index,
+          size: attachments[index].size,
+          limit: maxBytes,
+          error: `Attachment too large (${Math.round(attachments[index].size / (1024 * 1024))}MB). The limit is ${Math.round(maxBytes / (1024 * 1024))}MB.`,
+        });
+      }
+    }
+
+    // Random IDs: reuse the id of a still-pending identical submission
+    // (a retry), otherwise start a new logical submission. The id is
+    // committed inside the plaintext so the opener can verify it.
+    let id = contentId;
+    if (randomIds) {
+      id =
+        opts.idempotencyKey ??
+        (await findPendingByContent(contentId, pendingStore))?.id ??
+        createIdempotencyKey();
+    }
 
     // Check if this is a retry of a pending submission
-    const pendingId = getPendingId(storageKey, pendingTtlMs);
-    const isRetry = pendingId === id;
-
-    // Rate limit check (bypassed for retries)
-    if (!checkRateLimit(config.rateLimit, isRetry)) {
-      return {
-        ok: false,
-        error:
-          "Too many submissions. Please wait a moment before trying again.",
-      };
+    const isRetry = (await getPendingSubmission(id, pendingStore)) !== null;
+
+    // Rate limit check (token check bypassed for retries)
+    const rateLimit = await acquireRateLimit(config.rateLimit, config.endpoint, isRetry, storage);
+    if (!rateLimit.allowed) {
+      return submitFailure("rate_limited", {
+        retryAfterMs: rateLimit.retryAfterMs,
+        error: `Too many submissions. Please wait ${Math.ceil(rateLimit.retryAfterMs / 1000)}s before trying again.`,
+      });
+    }
+    if (!isRetry) {
+      refundToken = () => refundRateLimit(config.rateLimit, config.endpoint, storage);
     }
 
     // Check crypto capability (WebCrypto only — no WASM probe)
     const crypto = await checkCryptoCapability();
     if (!crypto.available) {
-      return {
-        ok: false,
+      return submitFailure("crypto_unavailable", {
         error: `Your browser cannot securely submit this form. ${crypto.error}. Please use a modern browser (Chrome, Firefox, Safari, Edge).`,
-      };
+      });
+    }
+
+    // Resolve a signed keyset (never falls back to unverified keys)
+    let publicKeys = config.publicKeys;
+    if (isKeysetSource(publicKeys)) {
+      const keyset = await loadKeyset(publicKeys);
+      if (!keyset.ok) {
+        return keyset.reason === "unavailable"
+          ? submitFailure("keyset_unavailable", {
+              error: "Could not load this form's encryption keys. Please try again.",
+            })
+          : submitFailure("keyset_invalid", {
+              error: "This form's encryption keys could not be verified. Submission blocked.",
+            });
+      }
+      publicKeys = keyset.keyring;
+    }
+
+    // Pick the org key to encrypt to (keyring rotation), or every
+    // recipient of a recipient list / trustee of a threshold
+    let recipients: RecipientPublicKeys[] | undefined;
+    let threshold: ThresholdPublicKeys | undefined;
+    let targets: SelectedPublicKey[] = [];
+    if (isMultiRecipient(publicKeys)) {
+      recipients = publicKeys.recipients;
+      targets = recipients.map((r) => ({ kid: r.kid, keys: r }));
+    } else if (isThreshold(publicKeys)) {
+      threshold = publicKeys;
+      targets = threshold.trustees.map((t) => ({ kid: t.kid, keys: t }));
+    } else {
+      try {
+        const selected = selectPublicKey(publicKeys);
+        if (selected) targets = [selected];
+      } catch (err) {
+        console.error("Intake keyring error:", err);
+      }
+    }
+    if (targets.length === 0) {
+      return submitFailure("public_key_unavailable", {
+        error: "This form has no valid encryption key configured. Please contact the site owner.",
+      });
     }
 
+    // Validate the key(s) (and pinned fingerprint) before they reach any
+    // primitive. The Kyber key only blocks the submission with requireKyber;
+    // otherwise a bad one means X25519-only (a downgrade, below).
+    const keyPath = (i: number) =>
+      recipients ? `publicKeys.recipients[${i}]` : threshold ? `publicKeys.trustees[${i}]` : "publicKeys";
+    const keyIssues = [
+      ...(threshold ? checkThreshold(threshold) : []),
+      ...targets.flatMap((target, i) =>
+        checkPublicKeys(target.keys, config, keyPath(i), config.requireKyber === true)
+      ),
+    ];
+    if (keyIssues.length > 0) {
+      const mismatch = keyIssues.some((issue) => issue.code === "fingerprint_mismatch");
+      console.error("Intake public key rejected:", keyIssues);
+      return submitFailure("public_key_invalid", {
+        reason: mismatch ? "fingerprint_mismatch" : "malformed",
+        error: "This form's encryption key failed verification. Submission blocked.",
+      });
+    }
+
+    // Reserved fields are committed inside the ciphertext
+    const plaintextPayload: Record<string, unknown> = { ...canonicalized };
+    if (randomIds) {
+      plaintextPayload[RANDOM_ID_FIELD] = id;
+    }
+    if (includeBotScore) {
+      plaintextPayload[BOT_SCORE_FIELD] = { score: botScore.score, reasons: botScore.reasons };
+    }
+    // Attachment refs are size-checked as placeholders of the same length,
+    // and filled in once the guards below pass and the files are uploaded
+    if (attachments.length > 0 && config.attachments) {
+      const attachmentConfig = config.attachments;
+      plaintextPayload[ATTACHMENTS_FIELD] = attachments.map((file) =>
+        placeholderAttachmentRef(file, attachmentConfig, config.suite)
+      );
+    }
+    const encodePlaintext = (): Uint8Array =>
+      new TextEncoder().encode(serializeCanonicalPayload(plaintextPayload, config.serialization));
+
     const requireKyber = config.requireKyber === true;
     const attemptHybrid = config.attemptHybrid !== false; // default true
 
-    // Encrypt canonicalized payload
-    const plaintext = JSON.stringify(canonicalized);
-    const encoder = new TextEncoder();
+    // Length-hiding padding (the size guard counts padded bytes)
+    let plaintextBytes = encodePlaintext();
+    if (config.padding) {
+      const padded = padPlaintext(plaintextBytes, config.padding);
+      if (!padded) {
+        // Fixed-size padding too small for this plaintext (+1 marker byte)
+        return submitFailure("plaintext_too_large", {
+          size: plaintextBytes.length + 1,
+          limit: config.padding.mode === "fixed" ? config.padding.size : maxPlaintext,
+          error: `Submission too large (${Math.round(plaintextBytes.length / 1024)}KB). Please shorten your responses.`,
+        });
+      }
+      plaintextBytes = padded;
+    }
 
     // Size guard before encryption
-    const plaintextBytes = encoder.encode(plaintext);
     if (plaintextBytes.length > maxPlaintext) {
-      return {
-        ok: false,
+      return submitFailure("plaintext_too_large", {
+        size: plaintextBytes.length,
+        limit: maxPlaintext,
         error: `Submission too large (${Math.round(plaintextBytes.length / 1024)}KB). Please shorten your responses.`,
-      };
+      });
+    }
+
+    // Proof of work bound to this id and a server challenge
+    let pow: ProofOfWorkToken | undefined;
+    if (config.proofOfWork) {
+      let challenge: Awaited<ReturnType<typeof fetchProofOfWorkChallenge>>;
+      try {
+        challenge = await fetchProofOfWorkChallenge(config.proofOfWork, opts.signal);
+      } catch (err) {
+        if (opts.signal?.aborted) {
+          return submitFailure("aborted", { error: "Submission cancelled." });
+        }
+        console.error("Intake challenge error:", err);
+        return submitFailure("challenge_unavailable", {
+          error: "Could not prepare the submission. Please try again.",
+        });
+      }
+      try {
+        pow = await solveProofOfWork(id, challenge.challenge, {
+          difficulty: challenge.difficulty,
+          onProgress: config.proofOfWork.onProgress,
+          signal: opts.signal,
+        });
+      } catch (err) {
+        if (opts.signal?.aborted) {
+          return submitFailure("aborted", { error: "Submission cancelled." });
+        }
+        throw err;
+      }
+    }
+
+    // Encrypt and upload attachments; their keys travel in the payload
+    if (attachments.length > 0 && config.attachments) {
+      const attachmentRefs: AttachmentRef[] = [];
+      try {
+        for (const [index, file] of attachments.entries()) {
+          attachmentRefs.push(
+            await uploadAttachment(file, config.attachments, {
+              index,
+              signal: opts.signal,
+              aead: config.suite,
+            })
+          );
+        }
+      } catch (err) {
+        if (opts.signal?.aborted) {
+          return submitFailure("aborted", { error: "Submission cancelled." });
+        }
+        console.error("Intake attachment error:", err);
+        return submitFailure("attachment_upload_failed", {
+          error: "Could not upload your attachments. Please try again.",
+        });
+      }
+      // Same length as the placeholders, so the guards above cover it
+      plaintextPayload[ATTACHMENTS_FIELD] = attachmentRefs;
     }
 
+    // Plaintext as encrypted: never longer than the guarded one
+    const plaintextFor = (): Uint8Array => {
+      const bytes = encodePlaintext();
+      return config.padding ? padPlaintext(bytes, config.padding)! : bytes;
+    };
+
+    // One key: OmniHybridV1. Recipient list: content encrypted once,
+    // content key wrapped to each recipient (OmniMultiRecipientV1).
+    // Threshold: content key split, one share wrapped to each trustee
+    // (OmniThresholdV1).
+    const aead = config.suite ?? ENVELOPE_AEAD;
+    const target: EncryptRequest["target"] = threshold
+      ? { threshold }
+      : recipients
+        ? { recipients }
+        : { keys: targets[0].keys, kid: targets[0].kid };
+    // Authenticated header (default on), bound to the content AEAD as
+    // associated data with the suite each encryption actually uses
+    const header = config.authenticatedHeader !== false
+      ? createEnvelopeHeader(
+          version,
+          id,
+          config.formKind ?? (typeof canonicalized.kind === "string" ? canonicalized.kind : "")
+        )
+      : undefined;
+    // Off the main thread with encryptInWorker (in-thread where workers are blocked)
+    const encryptWith = (hybrid: HybridEngine | false) => {
+      const request: EncryptRequest = { plaintext: plaintextFor(), target, hybrid, aead, header };
+      return config.encryptInWorker ? encryptOffThread(request) : encryptPlaintext(request);
+    };
+    const encryptClassical = () => encryptWith(false);
+    const encryptHybridWith = (engine: HybridEngine) => encryptWith(engine);
+    // Pure-JS ML-KEM instead of, or after, pqc-shared's Kyber WASM (config.mlKem).
+    // pqc-shared can't seal with AES-256-GCM, so that suite only uses ML-KEM.
+    const hybridEngines = (
+      config.mlKem === "always"
+        ? ["ml-kem"]
+        : config.mlKem === "fallback"
+          ? ["pqc-shared", "ml-kem"]
+          : ["pqc-shared"]
+    ).filter((engine): engine is HybridEngine => aead === ENVELOPE_AEAD || engine === "ml-kem");
+    const encryptHybrid = async () => {
+      if (hybridEngines.length === 0) {
+        throw new Error(`No hybrid engine for suite "${aead}" (set mlKem)`);
+      }
+      let firstErr: unknown;
+      for (const engine of hybridEngines) {
+        try {
+          return await encryptHybridWith(engine);
+        } catch (err) {
+          firstErr ??= err;
+        }
+      }
+      throw firstErr;
+    };
+
+    // Best-effort mode: report falling back to X25519-only
+    const downgrade = (reason: DowngradeReason, rawMsg: string) => {
+      const downgradeEvent: DowngradeEvent = {
+        event: "omnituum.crypto.downgrade",
+        reason,
+        suite: X25519_ONLY_SUITE,
+        pqcUsed: false,
+        requireKyber: false,
+        userAgent: typeof navigator !== "undefined" ? navigator.userAgent : undefined,
+        cspHint: reason === "wasm_blocked"
+          ? "WASM compilation likely blocked by Content-Security-Policy"
+          : undefined,
+        ...(config.debugDowngrade ? { rawError: rawMsg } : {}),
+      };
+      console.warn("[Intake] Crypto downgrade:", downgradeEvent);
+      config.onDowngrade?.(downgradeEvent);
+    };
+
     // Encrypt: attempt hybrid (lazy), fall back to X25519-only if allowed
-    let encrypted: OmniHybridV1;
+    let encrypted: OmniHybridV1 | OmniMultiRecipientV1 | OmniThresholdV1;
     let pqcUsed = false;
-
-    if (!attemptHybrid) {
-      // Hybrid explicitly disabled — go straight to X25519-only.
-      // No WASM chunk loaded, no dynamic import, no abort risk.
-      encrypted = await encryptX25519Only(plaintextBytes, config.publicKeys.x25519PubHex);
+    const kyberKeyIssues = attemptHybrid
+      ? targets.flatMap((target, i) => checkKyberKey(target.keys, config, keyPath(i)))
+      : [];
+
+    if (!attemptHybrid || (hybridEngines.length === 0 && !requireKyber)) {
+      // Hybrid explicitly disabled (or no engine for this suite) — go
+      // straight to X25519-only. No WASM chunk loaded, no dynamic import,
+      // no abort risk.
+      encrypted = await encryptClassical();
+    } else if (kyberKeyIssues.length > 0) {
+      // Missing or mis-sized Kyber key (requireKyber rejected it above)
+      downgrade("invalid_kyber_key", kyberKeyIssues.map((issue) => issue.message).join("; "));
+      encrypted = await encryptClassical();
     } else {
       try {
         // This dynamically imports pqc-shared — the ONLY place it's loaded.
-        // Under strict CSP this will fail, and we fall back below.
-        encrypted = await tryHybridEncryptLazy(plaintextBytes, {
-          x25519PubHex: config.publicKeys.x25519PubHex,
-          kyberPubB64: config.publicKeys.kyberPubB64,
-        });
+        // Under strict CSP this will fail, and we fall back below (to
+        // pure-JS ML-KEM first, with mlKem: "fallback").
+        encrypted = await encryptHybrid();
         pqcUsed = true;
         // Update capability cache now that hybrid succeeded
         setCachedKyberStatus(true);
       } catch (hybridErr) {
         if (requireKyber) {
           // Strict mode: no fallback allowed
-          return {
-            ok: false,
+          return submitFailure("pqc_required_unavailable", {
             error: "Post-quantum encryption unavailable in this environment (WASM blocked by CSP or unsupported browser). Cannot submit in strict hybrid mode.",
-          };
+          });
         }
         // Best-effort mode: fall back to X25519-only
         const rawMsg = hybridErr instanceof Error ? hybridErr.message : String(hybridErr);
-        const reason: DowngradeReason = classifyDowngradeReason(rawMsg);
-        const downgradeEvent: DowngradeEvent = {
-          event: "omnituum.crypto.downgrade",
-          reason,
-          suite: X25519_ONLY_SUITE,
-          pqcUsed: false,
-          requireKyber: false,
-          userAgent: typeof navigator !== "undefined" ? navigator.userAgent : undefined,
-          cspHint: reason === "wasm_blocked"
-            ? "WASM compilation likely blocked by Content-Security-Policy"
-            : undefined,
-          ...(config.debugDowngrade ? { rawError: rawMsg } : {}),
-        };
-        console.warn("[Intake] Crypto downgrade:", downgradeEvent);
-        config.onDowngrade?.(downgradeEvent);
-        encrypted = await encryptX25519Only(plaintextBytes, config.publicKeys.x25519PubHex);
+        downgrade(classifyDowngradeReason(rawMsg), rawMsg);
+        encrypted = await encryptClassical();
       }
     }
 
     // Build envelope with pqcUsed flag for truthful reporting
-    const envelope = {
+    const envelope: IntakeWireEnvelope = {
       v: version,
       id,
       pqcUsed,
+      ...(!recipients && !threshold && targets[0].kid !== undefined ? { kid: targets[0].kid } : {}),
+      ...(pow ? { pow } : {}),
+      ...(header ? { hdr: { form: header.form, ts: header.ts, nonce: header.nonce } } : {}),
       encrypted: JSON.stringify(encrypted),
     };
 
@@ -167,57 +513,71 @@ export async function submitSecureIntake(
 
     // Size guard after encryption (catches base64 expansion)
     if (envelopeJson.length > maxEnvelope) {
-      return {
-        ok: false,
-        error: `Encrypted submission too large. Please shorten your responses.`,
-      };
+      return submitFailure("envelope_too_large", {
+        size: envelopeJson.length,
+        limit: maxEnvelope,
+        error: "Encrypted submission too large. Please shorten your responses.",
+      });
     }
 
     // Mark as pending before network call
-    setPendingId(id, storageKey);
+    await markPendingAttempt(id, pendingStore, randomIds ? contentId : undefined);
 
-    // Submit to intake endpoint
-    const response = await fetch(config.endpoint, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: envelopeJson,
-    });
+    if (opts.signal?.aborted) {
+      return submitFailure("aborted", { error: "Submission cancelled." });
+    }
 
-    const status = response.status;
+    // Submit to intake endpoint (same envelope on every retry). From here
+    // the attempt counts against the rate limit.
+    refundToken = undefined;
+    const result = await deliverEnvelope(config.endpoint, envelopeJson, {
+      signal: opts.signal,
+      timeoutMs: opts.timeoutMs,
+      retry: opts.retry,
+    });
 
-    if (status === 201 || status === 200) {
-      const result = await response.json();
-      clearPendingSubmission(storageKey);
-      if (result.ok) {
-        recordSubmit();
-        return { ok: true, id: result.id, status: result.status };
-      }
-      return { ok: false, error: result.error || "Unknown error" };
+    // The server has decided on this id (stored, duplicate or rejected):
+    // a resubmission is no longer a retry. Transient failures keep it pending.
+    if (result.ok || result.code === "client_error" || result.code === "invalid_response") {
+      await clearPendingSubmission(id, pendingStore);
+    } else {
+      await setPendingError(id, result.code, pendingStore);
+    }
+    if (result.ok) {
+      return result;
     }
 
-    if (status >= 400 && status < 500) {
-      clearPendingSubmission(storageKey);
-      const errorData = await response.json().catch(() => ({}));
-      return {
-        ok: false,
-        error: errorData.error || `Request error: ${status}`,
-      };
+    // Server-side rate limit: honor Retry-After for this bucket
+    if (result.code === "rate_limited" && result.retryAfterMs !== undefined) {
+      await applyServerRetryAfter(config.rateLimit, config.endpoint, result.retryAfterMs, storage);
     }
 
-    const errorData = await response.json().catch(() => ({}));
-    return {
-      ok: false,
-      error: errorData.error || `Server error: ${status}. Please try again.`,
-    };
+    // Offline: keep the encrypted envelope for later delivery
+    if (result.code === "network_error" && queueConfig) {
+      const queued = await enqueueSubmission(
+        { id, endpoint: config.endpoint, envelopeJson, storageKey },
+        queueConfig
+      );
+      if (queued) {
+        return {
+          ...result,
+          queued: true,
+          error: "You appear to be offline. Your encrypted submission will be sent when the connection returns.",
+        };
+      }
+    }
+    return result;
   } catch (err) {
     console.error("Intake submission error:", err);
-    return {
-      ok: false,
+    return submitFailure("internal_error", {
       error:
         err instanceof Error
           ? err.message
           : "Submission failed. Please try again.",
-    };
+    });
+  } finally {
+    // Failed before sending (local error or abort): give the token back
+    await refundToken?.();
   }
 }
 
@@ -239,58 +599,5 @@ function classifyDowngradeReason(msg: string): DowngradeReason {
   return "unknown";
 }
 
-// ═══════════════════════════════════════════════════════════════════════════
-// X25519-ONLY ENCRYPTION (pure JS, no WASM, no pqc-shared)
-// ═══════════════════════════════════════════════════════════════════════════
-
-/** Suite identifier for X25519-only envelopes (no Kyber) */
-const X25519_ONLY_SUITE = "x25519" as const;
-
-function hkdfFlex(ikm: Uint8Array, salt: string, info: string): Uint8Array {
-  return hkdfSha256(ikm, { salt: u8(salt), info: u8(info), length: 32 });
-}
-
-/**
- * Encrypt using X25519 ECDH only (classical, no WASM required).
- * Produces an envelope structurally compatible with OmniHybridV1
- * but with empty Kyber fields and suite set to "x25519".
- *
- * @internal Exported for golden-vector tests
- */
-export async function encryptX25519Only(
-  plaintext: Uint8Array,
-  recipientX25519PubHex: string
-): Promise<OmniHybridV1> {
-  // 1. Generate random content key
-  const CK = rand32();
-
-  // 2. Encrypt content with content key (NaCl secretbox)
-  const contentNonce = rand24();
-  const ciphertext = secretboxRaw(CK, plaintext, contentNonce);
-
-  // 3. Wrap content key with X25519 ECDH
-  const ephKp = nacl.box.keyPair();
-  const recipientPk = fromHex(recipientX25519PubHex);
-  const shared = nacl.scalarMult(ephKp.secretKey, recipientPk);
-  const kek = hkdfFlex(shared, "omnituum/x25519", "wrap-ck");
-  const wrapNonce = rand24();
-  const wrapped = secretboxRaw(kek, CK, wrapNonce);
-
-  return {
-    v: ENVELOPE_VERSION,
-    suite: X25519_ONLY_SUITE,
-    aead: ENVELOPE_AEAD,
-    x25519Epk: toHex(ephKp.publicKey),
-    x25519Wrap: {
-      nonce: b64(wrapNonce),
-      wrapped: b64(wrapped),
-    },
-    kyberKemCt: "",
-    kyberWrap: { nonce: "", wrapped: "" },
-    contentNonce: b64(contentNonce),
-    ciphertext: b64(ciphertext),
-    meta: {
-      createdAt: new Date().toISOString(),
-    },
-  };
-}
+// Moved to ./encrypt.ts (shared with the encryption worker)
+export { encryptX25519Only } from "./encrypt.js";
@@ -0,0 +1,175 @@
+/**
+ * Threshold (k-of-n) envelopes.
+ *
+ * The payload is encrypted once under a random content key; the key is
+ * split with Shamir secret sharing (see shamir.ts) and each share is
+ * wrapped to one trustee, exactly like a multi-recipient content key
+ * wrap. No single trustee can decrypt: each unwraps their own share
+ * (unwrapThresholdShare), and any k shares together recover the content
+ * key (openThresholdEnvelope).
+ */
+
+import { rand32, b64, fromB64, X25519_ONLY_SUITE } from "./primitives.js";
+import { aeadNonce, aeadSeal, aeadOpen } from "./aead.js";
+import { wrapKey, unwrapKey } from "./multi-recipient.js";
+import { splitSecret, combineShares } from "./shamir.js";
+import type { HybridEngine } from "./mlkem.js";
+import { headerAssociatedData } from "./header.js";
+import type { EnvelopeHeaderFields } from "./header.js";
+import type {
+  ContentSuite,
+  IntakeSecretKeyring,
+  IntakeSecretKeys,
+  OmniThresholdV1,
+  ThresholdPublicKeys,
+  ThresholdShare,
+  ThresholdShareWrap,
+} from "./types.js";
+
+/** Inner envelope version for threshold envelopes */
+export const THRESHOLD_VERSION = "omnituum.threshold.v1";
+
+/**
+ * True if `publicKeys` is a threshold trustee list.
+ */
+export function isThreshold(publicKeys: unknown): publicKeys is ThresholdPublicKeys {
+  return (
+    typeof publicKeys === "object" &&
+    publicKeys !== null &&
+    Array.isArray((publicKeys as ThresholdPublicKeys).trustees)
+  );
+}
+
+/**
+ * True if a parsed inner envelope is a threshold envelope.
+ */
+export function isThresholdEnvelope(envelope: unknown): envelope is OmniThresholdV1 {
+  return (
+    typeof envelope === "object" &&
+    envelope !== null &&
+    (envelope as OmniThresholdV1).v === THRESHOLD_VERSION
+  );
+}
+
+/**
+ * Encrypt once, split the content key, wrap one share to each trustee.
+ *
+ * @param plaintext - Plaintext bytes (already padded, if configured)
+ * @param publicKeys - Trustee keys and threshold
+ * @param hybrid - Hybrid engine to wrap with, or false for X25519 (throws if the engine is unavailable)
+ * @param aead - Content and X25519 wrap AEAD
+ * @param header - Header fields to bind as associated data
+ * @returns Threshold envelope
+ * @throws If the threshold is out of range
+ */
+export async function encryptThreshold(
+  plaintext: Uint8Array,
+  publicKeys: ThresholdPublicKeys,
+  hybrid: HybridEngine | false,
+  aead: ContentSuite,
+  header?: EnvelopeHeaderFields
+): Promise<OmniThresholdV1> {
+  const { trustees, threshold } = publicKeys;
+  const CK = rand32();
+
+  // Wrap first: the header records the suite the share wraps report
+  const shares: ThresholdShareWrap[] = [];
+  for (const [i, share] of splitSecret(CK, threshold, trustees.length).entries()) {
+    shares.push({ ...(await wrapKey(share.y, trustees[i], hybrid, aead)), index: share.x });
+  }
+  const suite = shares[0]?.suite ?? X25519_ONLY_SUITE;
+
+  const contentNonce = aeadNonce(aead);
+  const ad = header && headerAssociatedData(header, suite);
+  const ciphertext = await aeadSeal(aead, CK, plaintext, contentNonce, ad);
+
+  return {
+    v: THRESHOLD_VERSION,
+    suite,
+    aead,
+    k: threshold,
+    n: trustees.length,
+    contentNonce: b64(contentNonce),
+    ciphertext: b64(ciphertext),
+    shares,
+    meta: {
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Unwrap one trustee's share.
+ *
+ * With a keyring, share wraps are matched by `kid`; a bare key set is
+ * tried against every wrap.
+ *
+ * @throws If no share wrap opens with the given keys
+ */
+export async function unwrapShare(
+  envelope: OmniThresholdV1,
+  secretKeys: IntakeSecretKeys | IntakeSecretKeyring
+): Promise<ThresholdShare> {
+  const attempts: Array<{ wrap: ThresholdShareWrap; keys: IntakeSecretKeys }> =
+    "keys" in secretKeys
+      ? envelope.shares.flatMap((wrap) =>
+          secretKeys.keys.filter((k) => k.kid === wrap.kid).map((keys) => ({ wrap, keys }))
+        )
+      : envelope.shares.map((wrap) => ({ wrap, keys: secretKeys }));
+
+  for (const { wrap, keys } of attempts) {
+    let share: Uint8Array | null;
+    try {
+      share = await unwrapKey(wrap, keys, envelope.aead);
+    } catch {
+      continue; // Not this trustee
+    }
+    if (share) return { kid: wrap.kid, index: wrap.index, share: b64(share) };
+  }
+
+  throw new Error("No share wrap opens with the given secret keys");
+}
+
+/**
+ * Combine trustee shares and decrypt the content.
+ *
+ * @param ad - Associated data the content was sealed with (the encoded header)
+ * @returns Decrypted plaintext and the trustees whose shares were used
+ * @throws If fewer than k distinct shares are given, a share doesn't
+ *   belong to this envelope, or the shares don't recover the content key
+ */
+export async function openWithShares(
+  envelope: OmniThresholdV1,
+  shares: ThresholdShare[],
+  ad?: Uint8Array
+): Promise<{ plaintext: string; trustees: string[] }> {
+  const distinct = new Map<number, ThresholdShare>();
+  for (const share of shares) {
+    const wrap = envelope.shares.find((w) => w.index === share.index);
+    if (!wrap || wrap.kid !== share.kid) {
+      throw new Error(`Share ${share.index} ("${share.kid}") does not belong to this envelope`);
+    }
+    distinct.set(share.index, share);
+  }
+  if (distinct.size < envelope.k) {
+    throw new Error(`Threshold not met: ${distinct.size} of ${envelope.k} required shares`);
+  }
+
+  const used = [...distinct.values()];
+  const CK = combineShares(used.map((s) => ({ x: s.index, y: fromB64(s.share) })));
+  const plaintext = await aeadOpen(
+    envelope.aead,
+    CK,
+    fromB64(envelope.ciphertext),
+    fromB64(envelope.contentNonce),
+    ad
+  );
+  if (!plaintext) {
+    throw new Error(
+      ad
+        ? "Failed to decrypt content (shares corrupted, ciphertext tampered or envelope header altered)"
+        : "Failed to decrypt content (shares corrupted or ciphertext tampered)"
+    );
+  }
+  return { plaintext: new TextDecoder().decode(plaintext), trustees: used.map((s) => s.kid) };
+}
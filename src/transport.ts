@@ -0,0 +1,201 @@
+/**
+ * Envelope delivery: POST with per-attempt timeout, AbortSignal support
+ * and retry with exponential backoff.
+ *
+ * Retries resend the exact same envelope JSON (same deterministic id, same
+ * ciphertext), so the server's UNIQUE(id) dedup makes them safe: a retry
+ * of a request that actually landed comes back as "duplicate".
+ */
+
+import { submitFailure, parseRetryAfter } from "./errors.js";
+import type { RetryPolicy, SubmitResult } from "./types.js";
+
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10 * 1000;
+
+/** Failure codes worth retrying automatically */
+const RETRYABLE_CODES = new Set(["network_error", "server_error", "rate_limited"]);
+
+export interface DeliveryOptions {
+  /** Cancels the in-flight attempt and any pending backoff */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds (default: none) */
+  timeoutMs?: number;
+  /** Retry policy, or false for a single attempt (default: false) */
+  retry?: RetryPolicy | false;
+}
+
+/**
+ * POST an envelope to the intake endpoint, retrying transient failures.
+ *
+ * @param endpoint - Intake endpoint URL
+ * @param envelopeJson - Serialized wire envelope (sent verbatim on every attempt)
+ * @param opts - Signal, timeout and retry policy
+ * @returns Result of the last attempt
+ */
+export async function deliverEnvelope(
+  endpoint: string,
+  envelopeJson: string,
+  opts: DeliveryOptions = {}
+): Promise<SubmitResult> {
+  const retry = opts.retry || { maxAttempts: 1 };
+  const maxAttempts = Math.max(1, Math.floor(retry.maxAttempts));
+
+  for (let attempt = 1; ; attempt++) {
+    if (opts.signal?.aborted) return abortedFailure();
+
+    const result = await attemptDelivery(endpoint, envelopeJson, opts);
+
+    if (result.ok || attempt >= maxAttempts || !RETRYABLE_CODES.has(result.code)) {
+      return result;
+    }
+
+    const backoff = backoffDelay(attempt, retry);
+    const retryAfter = result.code === "rate_limited" ? result.retryAfterMs ?? 0 : 0;
+    const maxDelay = retry.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    // Server asked us to wait longer than we're willing to: surface it to the caller
+    if (retryAfter > maxDelay) return result;
+
+    const waited = await sleep(Math.max(backoff, retryAfter), opts.signal);
+    if (!waited) return abortedFailure();
+  }
+}
+
+/** Single POST attempt, classified into a SubmitResult. */
+async function attemptDelivery(
+  endpoint: string,
+  envelopeJson: string,
+  opts: DeliveryOptions
+): Promise<SubmitResult> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort();
+  opts.signal?.addEventListener("abort", onAbort);
+  const timer =
+    opts.timeoutMs !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, opts.timeoutMs)
+      : undefined;
+
+  // Fetch or body read failed: our timeout, the caller's abort, or the network
+  const interrupted = (): SubmitResult => {
+    if (timedOut) {
+      return submitFailure("network_error", {
+        timedOut: true,
+        error: "The server took too long to respond. Please try again.",
+      });
+    }
+    if (opts.signal?.aborted) return abortedFailure();
+    return submitFailure("network_error", {
+      error: "Network error. Please check your connection and try again.",
+    });
+  };
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: envelopeJson,
+        signal: controller.signal,
+      });
+    } catch {
+      return interrupted();
+    }
+
+    try {
+      return await classifyResponse(response, controller.signal);
+    } catch {
+      return interrupted();
+    }
+  } finally {
+    if (timer !== undefined) clearTimeout(timer);
+    opts.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Map the intake endpoint's HTTP response to a SubmitResult.
+ *
+ * @throws If `signal` aborts while the body is being read
+ */
+async function classifyResponse(response: Response, signal: AbortSignal): Promise<SubmitResult> {
+  const status = response.status;
+  // Unparseable bodies are the server's problem; an aborted read is ours
+  const readJson = () =>
+    response.json().catch((err: unknown) => {
+      if (signal.aborted) throw err;
+      return null;
+    });
+
+  if (status === 201 || status === 200) {
+    const result = await readJson();
+    if (result?.ok) {
+      return { ok: true, id: result.id, status: result.status };
+    }
+    return submitFailure("invalid_response", {
+      status,
+      error: result?.error || "Unknown error",
+    });
+  }
+
+  const errorData = (await readJson()) ?? {};
+
+  if (status === 429) {
+    return submitFailure("rate_limited", {
+      retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+      error: errorData.error || "Too many submissions. Please wait a moment before trying again.",
+    });
+  }
+
+  if (status >= 400 && status < 500) {
+    return submitFailure("client_error", {
+      status,
+      error: errorData.error || `Request error: ${status}`,
+    });
+  }
+
+  if (status >= 500) {
+    return submitFailure("server_error", {
+      status,
+      error: errorData.error || `Server error: ${status}. Please try again.`,
+    });
+  }
+
+  return submitFailure("invalid_response", {
+    status,
+    error: `Unexpected response: ${status}`,
+  });
+}
+
+/** Exponential backoff with full jitter: random in [0, min(max, base·2^(n-1))]. */
+function backoffDelay(attempt: number, retry: RetryPolicy): number {
+  const base = retry.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const max = retry.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const ceiling = Math.min(max, base * 2 ** (attempt - 1));
+  return Math.random() * ceiling;
+}
+
+/** Resolves true after `ms`, or false early if the signal aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve(false);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function abortedFailure(): SubmitResult {
+  return submitFailure("aborted", { error: "Submission cancelled." });
+}
@@ -2,6 +2,8 @@
  * Shared types for secure intake client
  */
 
+import type { OmniHybridV1 } from "@omnituum/envelope-registry";
+
 /**
  * Public keys for hybrid encryption (matches pqc-shared HybridPublicKeys).
  * Defined locally to avoid any pqc-shared import.
@@ -11,12 +13,266 @@ export interface HybridPublicKeys {
   kyberPubB64: string;
 }
 
+/**
+ * AEAD for content encryption and key wraps (IntakeConfig.suite)
+ */
+export type ContentSuite = "xsalsa20poly1305" | "aes-256-gcm";
+
+/**
+ * Kyber parameter set of the org key (determines public key length)
+ */
+export type KyberParameterSet = "kyber512" | "kyber768" | "kyber1024";
+
+/**
+ * Lifecycle status of a keyring entry.
+ * Only "active" keys are used for new submissions; "retired" keys are kept
+ * for reference while old submissions are decrypted, "revoked" keys never.
+ */
+export type PublicKeyStatus = "active" | "retired" | "revoked";
+
+/**
+ * One public key in a keyring
+ */
+export interface PublicKeyEntry extends HybridPublicKeys {
+  /** Key id, recorded on the wire envelope (e.g., "2026-01") */
+  kid: string;
+  /** Start of validity (ISO 8601 or ms since epoch; default: always) */
+  notBefore?: string | number;
+  /** End of validity, exclusive (ISO 8601 or ms since epoch; default: never) */
+  notAfter?: string | number;
+  /** Lifecycle status (default: "active") */
+  status?: PublicKeyStatus;
+}
+
+/**
+ * Keyring of org public keys, for rotation without a flag day
+ */
+export interface PublicKeyring {
+  keys: PublicKeyEntry[];
+  /**
+   * Keep using a key this long outside its validity window when no key
+   * is currently valid (overlap for late keyring updates and clock skew;
+   * default: 0)
+   */
+  graceMs?: number;
+}
+
+/**
+ * Several recipients for one submission (e.g., compliance and sales).
+ * The payload is encrypted once; the content key is wrapped to each.
+ */
+export interface MultiRecipientPublicKeys {
+  recipients: RecipientPublicKeys[];
+}
+
+/**
+ * One recipient of a multi-recipient envelope
+ */
+export interface RecipientPublicKeys extends HybridPublicKeys {
+  /** Recipient key id, recorded on its wrap */
+  kid: string;
+}
+
+/**
+ * Inner envelope for multi-recipient submissions (next to OmniHybridV1)
+ */
+export interface OmniMultiRecipientV1 {
+  v: "omnituum.multi-recipient.v1";
+  /** Suite of the wraps ("x25519", or the hybrid suite) */
+  suite: string;
+  aead: ContentSuite;
+  contentNonce: string;
+  ciphertext: string;
+  recipients: RecipientWrap[];
+  meta: {
+    createdAt: string;
+  };
+}
+
+/**
+ * Content key wrapped to one recipient
+ */
+export type RecipientWrap =
+  | {
+      kid: string;
+      suite: "x25519";
+      /** Ephemeral X25519 public key (hex) */
+      x25519Epk: string;
+      x25519Wrap: { nonce: string; wrapped: string };
+    }
+  | {
+      kid: string;
+      /** Hybrid suite of keyEnvelope */
+      suite: string;
+      /** Content key (base64) sealed to the recipient's X25519 + Kyber keys */
+      keyEnvelope: OmniHybridV1;
+    };
+
+/**
+ * Trustees for threshold (k-of-n) decryption. The content key is split
+ * into one Shamir share per trustee; any `threshold` of them together can
+ * decrypt, fewer cannot.
+ */
+export interface ThresholdPublicKeys {
+  trustees: RecipientPublicKeys[];
+  /** Shares needed to decrypt (k, at most trustees.length) */
+  threshold: number;
+}
+
+/**
+ * Inner envelope for threshold submissions (next to OmniHybridV1)
+ */
+export interface OmniThresholdV1 {
+  v: "omnituum.threshold.v1";
+  /** Suite of the share wraps ("x25519", or the hybrid suite) */
+  suite: string;
+  aead: ContentSuite;
+  /** Shares needed to decrypt */
+  k: number;
+  /** Shares issued (one per trustee) */
+  n: number;
+  contentNonce: string;
+  ciphertext: string;
+  shares: ThresholdShareWrap[];
+  meta: {
+    createdAt: string;
+  };
+}
+
+/**
+ * One content key share wrapped to a trustee
+ */
+export type ThresholdShareWrap = RecipientWrap & {
+  /** Share index (Shamir x-coordinate, 1..n) */
+  index: number;
+};
+
+/**
+ * A trustee's unwrapped share (see unwrapThresholdShare)
+ */
+export interface ThresholdShare {
+  kid: string;
+  index: number;
+  /** Share bytes (base64) */
+  share: string;
+}
+
+/**
+ * Where to fetch a signed org keyset (see resolvePublicKeys)
+ */
+export interface KeysetSource {
+  /** URL of the signed keyset document (e.g., "/.well-known/omnituum-keyset.json") */
+  keysetUrl: string;
+  /** Pinned Ed25519 signing public key(s), hex; any one may sign */
+  trustAnchor: string | string[];
+  /** Re-fetch after this long, even if the keyset hasn't expired (default: 1 hour) */
+  cacheTtlMs?: number;
+}
+
+/**
+ * Signed keyset document as published by the org
+ */
+export interface SignedKeyset {
+  keyset: {
+    /** Keyset format version ("omnituum.keyset.v1") */
+    v: string;
+    /** Clients refuse the keyset after this time (ISO 8601) */
+    expiresAt: string;
+    keys: PublicKeyEntry[];
+    graceMs?: number;
+  };
+  /** Base64 Ed25519 signature over canonicalJson(keyset) */
+  signature: string;
+}
+
 /**
  * Result of a submission attempt
  */
 export type SubmitResult =
   | { ok: true; id: string; status: "created" | "duplicate" }
-  | { ok: false; error: string };
+  | SubmitFailure;
+
+/**
+ * Machine-readable failure codes.
+ * Switch on `code` (never on `error`, which is English display text).
+ */
+export type SubmitErrorCode = SubmitFailure["code"];
+
+/**
+ * Failed submission, discriminated by `code`.
+ *
+ * `retryable` tells the UI whether offering a retry button makes sense;
+ * `error` is an optional human-readable message (English).
+ */
+export type SubmitFailure =
+  | SubmitFailureOf<"rate_limited", true, {
+      /** Milliseconds until a submission is allowed again, if known */
+      retryAfterMs?: number;
+    }>
+  | SubmitFailureOf<"plaintext_too_large", false, {
+      /** Serialized plaintext size in bytes (after padding) */
+      size: number;
+      /** Configured maxPlaintextBytes */
+      limit: number;
+    }>
+  | SubmitFailureOf<"envelope_too_large", false, {
+      /** Wire envelope size in bytes */
+      size: number;
+      /** Configured maxEnvelopeBytes */
+      limit: number;
+    }>
+  | SubmitFailureOf<"pqc_required_unavailable", false>
+  | SubmitFailureOf<"public_key_unavailable", false>
+  | SubmitFailureOf<"public_key_invalid", false, {
+      /** Malformed key, or key not matching publicKeyFingerprint */
+      reason: "malformed" | "fingerprint_mismatch";
+    }>
+  | SubmitFailureOf<"keyset_unavailable", true>
+  | SubmitFailureOf<"keyset_invalid", false>
+  | SubmitFailureOf<"challenge_unavailable", true>
+  | SubmitFailureOf<"attachment_too_large", false, {
+      /** Index of the attachment in SubmitOptions.attachments */
+      index: number;
+      /** Attachment size in bytes */
+      size: number;
+      /** Configured attachments.maxBytes */
+      limit: number;
+    }>
+  | SubmitFailureOf<"attachment_upload_failed", true>
+  | SubmitFailureOf<"crypto_unavailable", false>
+  | SubmitFailureOf<"invalid_payload", false>
+  | SubmitFailureOf<"client_error", false, {
+      /** HTTP status (4xx) */
+      status: number;
+    }>
+  | SubmitFailureOf<"server_error", true, {
+      /** HTTP status (5xx) */
+      status: number;
+    }>
+  | SubmitFailureOf<"network_error", true, {
+      /** True if the attempt hit SubmitOptions.timeoutMs */
+      timedOut?: boolean;
+      /** True if the envelope was stored in the offline queue for later delivery */
+      queued?: boolean;
+    }>
+  | SubmitFailureOf<"aborted", false>
+  | SubmitFailureOf<"invalid_response", false, {
+      /** HTTP status of the unusable response */
+      status: number;
+    }>
+  | SubmitFailureOf<"internal_error", false>;
+
+type SubmitFailureOf<
+  C extends string,
+  R extends boolean,
+  D extends object = {},
+> = {
+  ok: false;
+  code: C;
+  retryable: R;
+  /** Human-readable message (English), safe to display */
+  error?: string;
+} & D;
 
 /**
  * Crypto capability check result
@@ -32,12 +288,191 @@ export interface CryptoCapability {
  * Rate limit configuration
  */
 export interface RateLimitConfig {
-  /** Maximum submissions per window */
+  /** Maximum submissions per window (token bucket capacity) */
   max: number;
-  /** Window duration in milliseconds */
+  /** Window duration in milliseconds (time to refill `max` tokens) */
   windowMs: number;
+  /**
+   * Bucket id (default: the config's endpoint). Forms sharing a key share
+   * a budget; give each form its own key to limit them independently.
+   */
+  key?: string;
+  /**
+   * Persist bucket state through IntakeConfig.storage so reloading the
+   * page doesn't reset it (default: false, in-memory)
+   */
+  persist?: boolean;
+}
+
+/**
+ * Proof-of-work configuration.
+ * Provide a fixed `challenge`, or a `challengeUrl` returning
+ * `{ challenge, difficulty }` (fetched before every submission).
+ */
+export interface ProofOfWorkConfig {
+  /** Static challenge string (e.g., rendered into the page by the server) */
+  challenge?: string;
+  /** Challenge endpoint (GET → { challenge, difficulty }) */
+  challengeUrl?: string;
+  /** Required leading zero bits (default: 16; the endpoint's value wins) */
+  difficulty?: number;
+  /** Called periodically while searching (e.g., to drive a progress bar) */
+  onProgress?: (progress: ProofOfWorkProgress) => void;
 }
 
+/**
+ * Proof-of-work search progress
+ */
+export interface ProofOfWorkProgress {
+  /** Hashes tried so far */
+  hashes: number;
+  /** Expected hashes for this difficulty (2^difficulty) */
+  expectedHashes: number;
+}
+
+/**
+ * Solved proof-of-work token, attached to the wire envelope as `pow`
+ */
+export interface ProofOfWorkToken {
+  challenge: string;
+  difficulty: number;
+  /** u64 nonce, 16-char big-endian hex */
+  nonce: string;
+}
+
+/**
+ * Behavioral bot signals (see createBotSignalCollector).
+ * Counts only — no keys, coordinates or event timings.
+ */
+export interface BotSignals {
+  /** Time from form render to submit (ms) */
+  elapsedMs?: number;
+  /** Keyboard events seen on the form */
+  keyEvents?: number;
+  /** Pointer / touch events seen on the form */
+  pointerEvents?: number;
+  /** Honeypot field values (should all be empty for real users) */
+  honeypots?: Array<string | null | undefined>;
+}
+
+/**
+ * Reason a bot signal contributed to the score
+ */
+export type BotSignalReason = "honeypot" | "too_fast" | "no_interaction";
+
+/**
+ * Bot score computed from BotSignals
+ */
+export interface BotScore {
+  /** 0 (human-like) to 1 (bot-like) */
+  score: number;
+  reasons: BotSignalReason[];
+  /** True if score >= threshold (the submission is silently dropped) */
+  suspicious: boolean;
+}
+
+/**
+ * Bot detection settings
+ */
+export interface BotDetectionConfig {
+  /** Submissions faster than this after render count as too fast (default: 3000) */
+  minElapsedMs?: number;
+  /** Score at which a submission is dropped (default: 0.7) */
+  threshold?: number;
+  /**
+   * Encrypt `{ score, reasons }` into the payload as `$bot` so operators
+   * can triage borderline submissions (default: false)
+   */
+  includeScore?: boolean;
+  /** Fake-success response time range in ms (default: 300-1200) */
+  fakeResponseMs?: { min: number; max: number };
+}
+
+/**
+ * Encrypted attachment upload configuration
+ */
+export interface AttachmentConfig {
+  /** Blob endpoint base URL (see attachments.ts for the upload protocol) */
+  endpoint: string;
+  /** Plaintext bytes per encrypted chunk (default: 256KB) */
+  chunkSize?: number;
+  /** Max plaintext bytes per attachment (default: 25MB) */
+  maxBytes?: number;
+  /** Max attachments per submission (default: 10) */
+  maxCount?: number;
+  /** Called after every chunk */
+  onProgress?: (progress: AttachmentProgress) => void;
+}
+
+/**
+ * Attachment upload progress
+ */
+export interface AttachmentProgress {
+  /** Index of the attachment in SubmitOptions.attachments */
+  index: number;
+  /** File name, if the Blob is a File */
+  name?: string;
+  /** Plaintext bytes encrypted and stored so far */
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+/**
+ * Uploaded attachment, referenced from the encrypted payload (`$attachments`)
+ */
+export interface AttachmentRef {
+  /** BLAKE3 of the concatenated encrypted chunks (64 hex chars) */
+  hash: string;
+  /** Upload id at the blob endpoint */
+  uploadId: string;
+  name?: string;
+  /** MIME type */
+  type?: string;
+  /** Plaintext size in bytes */
+  size: number;
+  chunkSize: number;
+  chunks: number;
+  /** Chunk AEAD, the envelope's `suite` (absent: xsalsa20poly1305) */
+  aead?: ContentSuite;
+  /** Content key (base64) - only ever inside the encrypted envelope */
+  key: string;
+  /** Chunk nonce prefix (base64; 15 bytes, or 3 for aes-256-gcm) */
+  noncePrefix: string;
+}
+
+/**
+ * Length-hiding padding applied to the plaintext before encryption
+ *
+ * - bucket: pad to the smallest bucket that fits (default: 512B, 2KB, 8KB, 32KB)
+ * - pow2: pad to the next power of two (default minimum: 256B)
+ * - fixed: always pad to `size`; larger plaintexts are rejected
+ */
+export type PaddingPolicy =
+  | { mode: "bucket"; buckets?: number[] }
+  | { mode: "pow2"; minBytes?: number }
+  | { mode: "fixed"; size: number };
+
+/**
+ * Payload serialization used for request IDs and encrypted plaintext
+ */
+export type PayloadSerialization = "json" | "jcs";
+
+/**
+ * Request ID strategy (see IntakeConfig.idStrategy)
+ */
+export type IdStrategy = "content" | "random";
+
+/**
+ * Key for keyed request IDs.
+ *
+ * - `dedupKeyHex`: 32-byte key, derivable by the org from its secret key
+ *   (see deriveDedupKey in the ./open subpath) but not published with the
+ *   public keys
+ * - `salt`: per-deployment secret string, stretched into a key with
+ *   BLAKE3 derive_key
+ */
+export type RequestIdKey = { dedupKeyHex: string } | { salt: string };
+
 /**
  * Configuration for intake client
  */
@@ -45,11 +480,31 @@ export interface IntakeConfig {
   /** API endpoint URL (e.g., "/api/intake" or full URL) */
   endpoint: string;
 
-  /** Organization's public keys for hybrid encryption */
-  publicKeys: {
-    x25519PubHex: string;
-    kyberPubB64: string;
-  };
+  /**
+   * Organization's public keys for hybrid encryption: a single key pair
+   * (optionally with a `kid`), a keyring for rotation, a signed keyset
+   * fetched at submit time, a list of recipients, or threshold trustees
+   */
+  publicKeys:
+    | HybridPublicKeys
+    | PublicKeyEntry
+    | PublicKeyring
+    | KeysetSource
+    | MultiRecipientPublicKeys
+    | ThresholdPublicKeys;
+
+  /**
+   * Pinned BLAKE3 fingerprint(s) of the org public keys (see
+   * computePublicKeyFingerprint). When set, the selected key is checked
+   * before every encryption and the submission fails on mismatch.
+   */
+  publicKeyFingerprint?: string | string[];
+
+  /**
+   * Kyber parameter set of the org key, used to validate the key length
+   * (default: "kyber1024", as generated by pqc-shared identities)
+   */
+  kyberParameterSet?: KyberParameterSet;
 
   /**
    * Canonicalization function for the payload.
@@ -58,10 +513,58 @@ export interface IntakeConfig {
    */
   canonicalize: (payload: unknown) => Record<string, unknown>;
 
+  /**
+   * How request IDs are chosen (default: "content").
+   *
+   * - "content": the ID is a hash of the payload, so identical submissions
+   *   are always deduplicated
+   * - "random": each logical submission gets a random ID, kept in pending
+   *   state so retries reuse it; once it resolves, an identical submission
+   *   creates a new record
+   */
+  idStrategy?: IdStrategy;
+
+  /**
+   * Derive request IDs with keyed BLAKE3 instead of a plain hash, so a
+   * leaked database can't be checked against guessed submissions
+   * (default: unkeyed). Changing the key changes every ID.
+   */
+  requestIdKey?: RequestIdKey;
+
+  /**
+   * How the canonicalized payload is serialized for hashing and encryption
+   * (default: "json").
+   *
+   * - "json": JSON.stringify — the ID depends on property insertion order
+   * - "jcs": RFC 8785 canonical JSON — sorted keys, JCS number formatting,
+   *   rejects undefined/NaN/functions. Reproducible by non-JS tooling.
+   *
+   * Changing this changes every request ID, so switch only between
+   * deployments, never for in-flight retries.
+   */
+  serialization?: PayloadSerialization;
+
   /** Wire protocol version (default: "loggie.intake.v1") */
   version?: string;
 
-  /** Max plaintext size in bytes before encryption (default: 32KB) */
+  /**
+   * Bind an authenticated header (version, id, pqcUsed, suite, form kind,
+   * timestamp, nonce) to the content AEAD as associated data, so the
+   * opener can trust the wire metadata (default: true). Set false for
+   * envelopes that pqc-shared alone or older openers can open
+   */
+  authenticatedHeader?: boolean;
+
+  /** Form kind recorded in the header (default: the payload's `kind` field) */
+  formKind?: string;
+
+  /**
+   * Pad the plaintext so the ciphertext length doesn't reveal the exact
+   * payload length (default: false)
+   */
+  padding?: PaddingPolicy | false;
+
+  /** Max plaintext size in bytes before encryption, padding included (default: 32KB) */
   maxPlaintextBytes?: number;
 
   /** Max envelope size in bytes after encryption (default: 56KB) */
@@ -70,10 +573,37 @@ export interface IntakeConfig {
   /** Pending submission TTL in milliseconds (default: 5 min) */
   pendingTtlMs?: number;
 
-  /** sessionStorage key for pending submissions (default: "loggie.intake.pending") */
+  /** Storage key for pending submissions (default: "loggie.intake.pending") */
   storageKey?: string;
 
-  /** Rate limit config, or false to disable (default: { max: 2, windowMs: 60000 }) */
+  /**
+   * Storage backend for pending-submission tracking.
+   * Default: sessionStorage where available, otherwise an in-memory store.
+   * Use localStorageAdapter() to survive tab close, or
+   * createMemoryStorage() for tests and SSR.
+   */
+  storage?: IntakeStorage;
+
+  /**
+   * Proof of work attached to every envelope (default: none). Verify it
+   * server-side with verifyProofOfWork().
+   */
+  proofOfWork?: ProofOfWorkConfig;
+
+  /**
+   * Bot scoring for SubmitOptions.botSignals / honeypot. Suspicious
+   * submissions get a fake success and are never sent.
+   */
+  botDetection?: BotDetectionConfig;
+
+  /** Blob endpoint for SubmitOptions.attachments (default: attachments disabled) */
+  attachments?: AttachmentConfig;
+
+  /**
+   * Rate limit config, or false to disable (default: { max: 2, windowMs: 60000 }).
+   * Token bucket per endpoint (or `rateLimit.key`); a server 429 Retry-After
+   * blocks the bucket until the server's deadline.
+   */
   rateLimit?: RateLimitConfig | false;
 
   /** Require Kyber to be available (default: false - falls back gracefully) */
@@ -96,6 +626,40 @@ export interface IntakeConfig {
    */
   attemptHybrid?: boolean;
 
+  /**
+   * Pure-JS ML-KEM hybrid suite (no WASM, works under strict CSP):
+   *
+   * - "fallback": use it when pqc-shared's Kyber WASM fails to load
+   * - "always": use it instead of pqc-shared (never attempts WASM)
+   * - false (default): pqc-shared only
+   *
+   * `kyberPubB64` must be an ML-KEM-768 or ML-KEM-1024 encapsulation key.
+   * Counts as post-quantum for `requireKyber` and `pqcUsed`.
+   */
+  mlKem?: "fallback" | "always" | false;
+
+  /**
+   * Content encryption and key wrapping:
+   *
+   * - "xsalsa20poly1305" (default): NaCl secretbox, pqc-shared compatible
+   * - "aes-256-gcm": Web Crypto AES-256-GCM and HKDF-SHA-256 (X25519 via
+   *   Web Crypto where available), for FIPS-aligned deployments
+   *
+   * pqc-shared's Kyber suite only seals with XSalsa20-Poly1305, so with
+   * "aes-256-gcm" hybrid encryption uses ML-KEM (`mlKem`) or is skipped.
+   */
+  suite?: ContentSuite;
+
+  /**
+   * Encrypt in a dedicated module worker (`encrypt-worker.js`, next to the
+   * bundle) so Kyber WASM and large payloads don't freeze the form.
+   * Falls back to in-thread encryption where workers are unavailable
+   * (e.g. blocked by CSP `worker-src`), in the CommonJS build (no
+   * `import.meta.url` to locate the worker) and when the worker doesn't
+   * reply within 15s. Default: false
+   */
+  encryptInWorker?: boolean;
+
   /**
    * Callback fired when encryption downgrades from hybrid to X25519-only.
    * Local-only by default (console.warn). Provide a callback to pipe
@@ -110,6 +674,50 @@ export interface IntakeConfig {
    * Enable only for local debugging; raw errors may contain internal paths.
    */
   debugDowngrade?: boolean;
+
+  /**
+   * Offline queue (default: disabled). When enabled, an envelope whose
+   * delivery fails with a network error is stored in IndexedDB — already
+   * encrypted, never plaintext — and delivered later: at the next page's
+   * first submission (or armOfflineQueue() call), on the browser's
+   * `online` event, or via flushQueuedSubmissions(). The result is then
+   * `{ ok: false, code: "network_error", queued: true }`.
+   */
+  offlineQueue?: boolean | OfflineQueueConfig;
+}
+
+/**
+ * Offline queue configuration
+ */
+export interface OfflineQueueConfig {
+  /** IndexedDB database name (default: "omnituum.intake.queue") */
+  dbName?: string;
+  /** Flush automatically at the first submission and on the `online` event (default: true) */
+  autoFlush?: boolean;
+  /** Drop queued envelopes older than this, in milliseconds (default: 7 days) */
+  maxAgeMs?: number;
+  /** Per-attempt network timeout for automatic flushes (default: the submission's timeoutMs) */
+  timeoutMs?: number;
+  /** Retry policy per envelope for automatic flushes (default: the submission's retry) */
+  retry?: RetryPolicy | false;
+  /** Called with each queued envelope's outcome during automatic flushes */
+  onOutcome?: (outcome: QueuedSubmissionOutcome) => void;
+}
+
+/**
+ * Outcome of delivering one queued envelope.
+ *
+ * - "delivered": server accepted it (created or duplicate) — removed
+ * - "rejected": server refused it (4xx / unusable response) — removed
+ * - "deferred": transient failure — stays queued
+ * - "expired": older than maxAgeMs — removed without sending
+ */
+export interface QueuedSubmissionOutcome {
+  /** Request id of the queued envelope */
+  id: string;
+  status: "delivered" | "rejected" | "deferred" | "expired";
+  /** Delivery result (absent for "expired") */
+  result?: SubmitResult;
 }
 
 /**
@@ -122,6 +730,7 @@ export type DowngradeReason =
   | "module_load_failed" // dynamic import() of pqc-shared failed
   | "kyber_unavailable"  // Kyber runtime reports not available
   | "encrypt_failed"     // hybridEncrypt threw during execution
+  | "invalid_kyber_key"  // Kyber public key missing or wrong size (hybrid not attempted)
   | "unknown";           // catch-all for unexpected errors
 
 /**
@@ -151,20 +760,189 @@ export interface DowngradeEvent {
   rawError?: string;
 }
 
+/**
+ * Retry policy for network delivery.
+ * Only network errors, 5xx and 429 are retried; 4xx never are.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first (e.g., 3 = 1 try + 2 retries) */
+  maxAttempts: number;
+  /** Base backoff delay in milliseconds (default: 500) */
+  baseDelayMs?: number;
+  /**
+   * Backoff cap in milliseconds (default: 10000). A 429 whose Retry-After
+   * exceeds this is returned to the caller instead of being waited out.
+   */
+  maxDelayMs?: number;
+}
+
 /**
  * Submission options
  */
 export interface SubmitOptions {
   /** Honeypot field value - if set, submission is silently dropped */
   honeypot?: string;
+
+  /**
+   * Behavioral signals from createBotSignalCollector(). Scored against
+   * config.botDetection; suspicious submissions are silently dropped.
+   */
+  botSignals?: BotSignals;
+
+  /**
+   * Files to encrypt and upload before submitting (requires
+   * config.attachments). Passing the same File objects again resumes
+   * their uploads.
+   */
+  attachments?: Blob[];
+
+  /**
+   * Cancels the submission (in-flight request and any retry backoff).
+   * Resolves with `code: "aborted"`; the pending id is kept so a later
+   * resubmission is still recognized as a retry.
+   */
+  signal?: AbortSignal;
+
+  /** Per-attempt network timeout in milliseconds (default: none) */
+  timeoutMs?: number;
+
+  /**
+   * Automatic retry with exponential backoff and jitter (default: false).
+   * Every attempt resends the same envelope, so server dedup keeps it safe.
+   */
+  retry?: RetryPolicy | false;
+
+  /**
+   * Caller-managed id for one logical submission (idStrategy "random"
+   * only): 64-char lowercase hex, e.g. from createIdempotencyKey(). Every
+   * submission with the same key is deduplicated by the server.
+   */
+  idempotencyKey?: string;
 }
 
 /**
- * Pending submission state (stored in sessionStorage)
+ * Key-value storage used for pending-submission tracking.
+ * Methods may be sync (Web Storage) or async (e.g., IndexedDB, native bridges).
+ */
+export interface IntakeStorage {
+  get(key: string): string | null | Promise<string | null>;
+  set(key: string, value: string): void | Promise<void>;
+  remove(key: string): void | Promise<void>;
+}
+
+/**
+ * Pending submission state (stored via IntakeStorage)
  */
 export interface PendingSubmission {
-  /** Deterministic request ID (BLAKE3 hash of normalized payload) */
+  /** Request ID (content hash, or random in idStrategy "random") */
+  id: string;
+  /** Content ID of the payload (idStrategy "random" only; matches retries to their id) */
+  contentId?: string;
+  /** Timestamp of the latest attempt (TTL runs from here) */
+  ts: number;
+  /** Delivery attempts made so far */
+  attempts: number;
+  /** Failure code of the latest attempt, if it failed transiently */
+  lastError?: SubmitErrorCode;
+}
+
+/**
+ * Wire envelope POSTed to the intake endpoint.
+ * `encrypted` is the JSON-encoded OmniHybridV1 envelope.
+ */
+export interface IntakeWireEnvelope {
+  /** Wire protocol version (e.g., "loggie.intake.v1") */
+  v: string;
+  /** Deterministic request ID (64-char hex) */
+  id: string;
+  /** Whether post-quantum (Kyber) encryption was used */
+  pqcUsed: boolean;
+  /** Id of the org key the envelope was encrypted to (keyring configs only) */
+  kid?: string;
+  /** Proof-of-work token (proofOfWork configs only) */
+  pow?: ProofOfWorkToken;
+  /** Header fields not already on the wire (authenticatedHeader configs; authenticated by the content AEAD) */
+  hdr?: Pick<IntakeEnvelopeHeader, "form" | "ts" | "nonce">;
+  /** JSON-encoded OmniHybridV1 envelope */
+  encrypted: string;
+}
+
+/**
+ * Envelope header bound to the content AEAD (see authenticatedHeader)
+ */
+export interface IntakeEnvelopeHeader {
+  /** Wire protocol version */
+  v: string;
+  /** Request ID */
   id: string;
-  /** Timestamp when pending was set */
+  /** Whether a hybrid (post-quantum) suite was used */
+  pqcUsed: boolean;
+  /** Inner envelope suite id, e.g. "x25519" or "x25519+ml-kem-768" */
+  suite: string;
+  /** Form kind ("" if unknown) */
+  form: string;
+  /** Client timestamp (ms since epoch) */
   ts: number;
+  /** Random 128-bit nonce (hex), unique per envelope — repeats are replays */
+  nonce: string;
+}
+
+/**
+ * Org secret keys for opening envelopes (matches pqc-shared HybridSecretKeys).
+ * `kyberSecB64` is only needed for hybrid envelopes.
+ */
+export interface IntakeSecretKeys {
+  x25519SecHex: string;
+  kyberSecB64?: string;
+}
+
+/**
+ * Org secret keys for several key ids (the secret side of a PublicKeyring)
+ */
+export interface IntakeSecretKeyring {
+  keys: Array<IntakeSecretKeys & { kid: string }>;
+}
+
+/**
+ * Result of opening an intake envelope
+ */
+export interface OpenedIntake {
+  /** Wire protocol version from the envelope */
+  v: string;
+  /** Request ID as sent on the wire */
+  id: string;
+  /**
+   * Request ID recomputed from the decrypted plaintext (content IDs), or
+   * the random ID committed inside the plaintext (idStrategy "random")
+   */
+  computedId: string;
+  /** How the sender chose the ID */
+  idStrategy: IdStrategy;
+  /** True if the wire ID matches the recomputed ID */
+  idMatches: boolean;
+  /** `pqcUsed` flag as sent on the wire */
+  pqcUsed: boolean;
+  /** True if `pqcUsed` agrees with the envelope suite */
+  pqcMatches: boolean;
+  /**
+   * Authenticated header, if the envelope carries one. Opening succeeded,
+   * so `v`, `id`, `pqcUsed` and `hdr` are exactly as the client sent them
+   */
+  header?: IntakeEnvelopeHeader;
+  /** Key id the envelope was opened with (keyring or multi-recipient) */
+  kid?: string;
+  /** Key ids of every recipient (multi-recipient envelopes only) */
+  recipients?: string[];
+  /** Threshold parameters and the trustees whose shares opened it (threshold envelopes only) */
+  threshold?: { k: number; n: number; trustees: string[] };
+  /** Suite of the inner envelope ("x25519" or a hybrid suite) */
+  suite: string;
+  /** Decrypted canonical JSON plaintext */
+  plaintext: string;
+  /** Parsed canonicalized payload (reserved `$` fields removed) */
+  payload: Record<string, unknown>;
+  /** Client-side bot score, if the form sends it (botDetection.includeScore) */
+  botScore?: Pick<BotScore, "score" | "reasons">;
+  /** Attachment references (decrypt downloads with openAttachment()) */
+  attachments?: AttachmentRef[];
 }
@@ -0,0 +1,317 @@
+/**
+ * Config validation.
+ *
+ * Catches bad deployment config (truncated env vars, swapped keys,
+ * malformed endpoints) before the first submission instead of as a
+ * `nacl.scalarMult` throw or a failure inside the lazy Kyber path.
+ */
+
+import { fromB64 } from "./primitives.js";
+import { normalizeFingerprint, matchesPinnedFingerprint } from "./fingerprint.js";
+import { isKeyring } from "./keyring.js";
+import { isKeysetSource } from "./keyset.js";
+import { isMultiRecipient } from "./multi-recipient.js";
+import { isThreshold } from "./threshold.js";
+import { isSupportedAead, AES_256_GCM_AEAD } from "./aead.js";
+import { resolveRequestIdKey } from "./id.js";
+import { checkPaddingPolicy } from "./padding.js";
+import type {
+  HybridPublicKeys,
+  IntakeConfig,
+  KyberParameterSet,
+  RecipientPublicKeys,
+  ThresholdPublicKeys,
+} from "./types.js";
+
+/** Kyber public key sizes in bytes */
+const KYBER_PUBLIC_KEY_BYTES: Record<KyberParameterSet, number> = {
+  kyber512: 800,
+  kyber768: 1184,
+  kyber1024: 1568,
+};
+
+const DEFAULT_KYBER_PARAMETER_SET: KyberParameterSet = "kyber1024";
+
+/** submitSecureIntake's maxPlaintextBytes default */
+const DEFAULT_MAX_PLAINTEXT = 32 * 1024;
+
+export type ConfigIssueCode =
+  | "invalid_endpoint"
+  | "insecure_endpoint"
+  | "invalid_x25519_key"
+  | "invalid_kyber_key"
+  | "invalid_fingerprint"
+  | "fingerprint_mismatch"
+  | "invalid_keyset_source"
+  | "invalid_request_id_key"
+  | "invalid_padding"
+  | "invalid_recipient"
+  | "invalid_threshold"
+  | "invalid_ml_kem"
+  | "invalid_suite";
+
+export interface ConfigIssue {
+  /** Config path, e.g. "publicKeys.keys[1].kyberPubB64" */
+  path: string;
+  code: ConfigIssueCode;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  valid: boolean;
+  issues: ConfigIssue[];
+}
+
+/**
+ * Validate an intake config without submitting anything.
+ *
+ * Checks the endpoint URL, X25519 key length/hex, Kyber key length for
+ * `kyberParameterSet` (and its ML-KEM support), the pinned
+ * `publicKeyFingerprint` and the padding policy's sizes. Keyset sources are checked for shape only (their keys
+ * are verified on fetch).
+ *
+ * @param config - Intake configuration
+ * @returns All issues found (valid if none)
+ */
+export function validateIntakeConfig(config: IntakeConfig): ConfigValidationResult {
+  const issues: ConfigIssue[] = [...checkEndpoint(config.endpoint)];
+
+  const pinned = config.publicKeyFingerprint;
+  if (pinned !== undefined) {
+    (Array.isArray(pinned) ? pinned : [pinned]).forEach((fp, i) => {
+      if (!/^[0-9a-f]{64}$/.test(normalizeFingerprint(fp))) {
+        issues.push({
+          path: Array.isArray(pinned) ? `publicKeyFingerprint[${i}]` : "publicKeyFingerprint",
+          code: "invalid_fingerprint",
+          message: "Fingerprint must be 64 hex characters (BLAKE3-256)",
+        });
+      }
+    });
+  }
+
+  if (config.requestIdKey !== undefined) {
+    try {
+      resolveRequestIdKey(config.requestIdKey);
+    } catch (err) {
+      issues.push({
+        path: "requestIdKey",
+        code: "invalid_request_id_key",
+        message: err instanceof Error ? err.message : "Invalid requestIdKey",
+      });
+    }
+  }
+
+  if (config.padding) {
+    const problem = checkPaddingPolicy(
+      config.padding,
+      config.maxPlaintextBytes ?? DEFAULT_MAX_PLAINTEXT
+    );
+    if (problem) {
+      issues.push({ path: "padding", code: "invalid_padding", message: problem });
+    }
+  }
+
+  if (config.mlKem && config.kyberParameterSet === "kyber512") {
+    issues.push({
+      path: "mlKem",
+      code: "invalid_ml_kem",
+      message: "ML-KEM needs kyber768 or kyber1024 keys (ML-KEM-768 / ML-KEM-1024)",
+    });
+  }
+
+  if (config.suite !== undefined && !isSupportedAead(config.suite)) {
+    issues.push({
+      path: "suite",
+      code: "invalid_suite",
+      message: `suite must be "xsalsa20poly1305" or "aes-256-gcm" (got "${String(config.suite)}")`,
+    });
+  } else if (config.suite === AES_256_GCM_AEAD && config.requireKyber && !config.mlKem) {
+    issues.push({
+      path: "suite",
+      code: "invalid_suite",
+      message: 'requireKyber with suite "aes-256-gcm" needs mlKem (pqc-shared only seals with XSalsa20-Poly1305)',
+    });
+  }
+
+  const publicKeys = config.publicKeys;
+  if (isKeysetSource(publicKeys)) {
+    issues.push(...checkKeysetSource(publicKeys.keysetUrl, publicKeys.trustAnchor));
+  } else if (isMultiRecipient(publicKeys)) {
+    issues.push(...checkRecipientList(publicKeys.recipients, config, "publicKeys.recipients"));
+  } else if (isThreshold(publicKeys)) {
+    issues.push(...checkThreshold(publicKeys));
+    issues.push(...checkRecipientList(publicKeys.trustees, config, "publicKeys.trustees"));
+  } else if (isKeyring(publicKeys)) {
+    publicKeys.keys.forEach((entry, i) => {
+      issues.push(...checkPublicKeys(entry, config, `publicKeys.keys[${i}]`));
+    });
+  } else {
+    issues.push(...checkPublicKeys(publicKeys, config, "publicKeys"));
+  }
+
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Check a threshold's k against its trustee count.
+ *
+ * @internal Run by submitSecureIntake before splitting the content key
+ */
+export function checkThreshold(publicKeys: ThresholdPublicKeys): ConfigIssue[] {
+  const { threshold, trustees } = publicKeys;
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > trustees.length || trustees.length > 255) {
+    return [{
+      path: "publicKeys.threshold",
+      code: "invalid_threshold",
+      message: `Threshold must be an integer from 1 to the trustee count (${trustees.length}, at most 255)`,
+    }];
+  }
+  return [];
+}
+
+/** Recipient / trustee list: non-empty, unique kids, every key valid. */
+function checkRecipientList(
+  recipients: RecipientPublicKeys[],
+  config: IntakeConfig,
+  path: string
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const kids = new Set<string>();
+  recipients.forEach((recipient, i) => {
+    const entryPath = `${path}[${i}]`;
+    if (typeof recipient.kid !== "string" || recipient.kid === "" || kids.has(recipient.kid)) {
+      issues.push({ path: `${entryPath}.kid`, code: "invalid_recipient", message: "Each recipient needs a unique kid" });
+    }
+    kids.add(recipient.kid);
+    issues.push(...checkPublicKeys(recipient, config, entryPath));
+  });
+  if (recipients.length === 0) {
+    issues.push({ path, code: "invalid_recipient", message: "Recipient list is empty" });
+  }
+  return issues;
+}
+
+/**
+ * Check one key pair (format, then pinned fingerprint).
+ *
+ * Without `strictKyber` the Kyber key is left out: submitSecureIntake
+ * downgrades to X25519-only over a missing or mis-sized one unless
+ * requireKyber is set.
+ *
+ * @internal Run by submitSecureIntake on the selected key before encrypting
+ */
+export function checkPublicKeys(
+  keys: HybridPublicKeys,
+  config: Pick<IntakeConfig, "attemptHybrid" | "kyberParameterSet" | "publicKeyFingerprint">,
+  path: string,
+  strictKyber = true
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  if (!/^[0-9a-f]{64}$/i.test(keys.x25519PubHex ?? "") || /^0+$/.test(keys.x25519PubHex)) {
+    issues.push({
+      path: `${path}.x25519PubHex`,
+      code: "invalid_x25519_key",
+      message: `X25519 public key must be 64 hex characters (got ${String(keys.x25519PubHex ?? "").length})`,
+    });
+  }
+
+  // X25519-only configs may leave the Kyber key empty
+  const kyberOptional = config.attemptHybrid === false && !keys.kyberPubB64;
+  if (strictKyber && !kyberOptional) {
+    issues.push(...checkKyberKey(keys, config, path));
+  }
+
+  if (issues.length === 0 && config.publicKeyFingerprint !== undefined) {
+    if (!matchesPinnedFingerprint(keys, config.publicKeyFingerprint)) {
+      issues.push({
+        path,
+        code: "fingerprint_mismatch",
+        message: "Public keys do not match the pinned publicKeyFingerprint",
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check the Kyber key's length against `kyberParameterSet`.
+ *
+ * @internal Also used by submitSecureIntake to decide whether to attempt hybrid
+ */
+export function checkKyberKey(
+  keys: HybridPublicKeys,
+  config: Pick<IntakeConfig, "kyberParameterSet">,
+  path: string
+): ConfigIssue[] {
+  const parameterSet = config.kyberParameterSet ?? DEFAULT_KYBER_PARAMETER_SET;
+  const expected = KYBER_PUBLIC_KEY_BYTES[parameterSet];
+  const actual = decodedLength(keys.kyberPubB64);
+  if (actual === expected) return [];
+  return [
+    {
+      path: `${path}.kyberPubB64`,
+      code: "invalid_kyber_key",
+      message:
+        actual === null
+          ? "Kyber public key is not valid base64"
+          : `Kyber public key must be ${expected} bytes for ${parameterSet} (got ${actual})`,
+    },
+  ];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+function checkEndpoint(endpoint: string): ConfigIssue[] {
+  if (typeof endpoint !== "string" || endpoint.trim() === "") {
+    return [{ path: "endpoint", code: "invalid_endpoint", message: "Endpoint is required" }];
+  }
+  let url: URL;
+  try {
+    // Relative endpoints ("/api/intake") resolve against the page origin
+    url = new URL(endpoint, "https://relative.invalid");
+  } catch {
+    return [{ path: "endpoint", code: "invalid_endpoint", message: `Endpoint is not a valid URL: ${endpoint}` }];
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return [{ path: "endpoint", code: "invalid_endpoint", message: `Unsupported endpoint protocol: ${url.protocol}` }];
+  }
+  if (url.protocol === "http:" && !isLoopback(url.hostname)) {
+    return [{ path: "endpoint", code: "insecure_endpoint", message: "Endpoint must use https (http is only allowed for localhost)" }];
+  }
+  return [];
+}
+
+function checkKeysetSource(keysetUrl: string, trustAnchor: string | string[]): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  try {
+    new URL(keysetUrl, "https://relative.invalid");
+  } catch {
+    issues.push({ path: "publicKeys.keysetUrl", code: "invalid_keyset_source", message: "keysetUrl is not a valid URL" });
+  }
+  const anchors = Array.isArray(trustAnchor) ? trustAnchor : [trustAnchor];
+  if (anchors.length === 0 || !anchors.every((a) => /^[0-9a-f]{64}$/i.test(a))) {
+    issues.push({
+      path: "publicKeys.trustAnchor",
+      code: "invalid_keyset_source",
+      message: "trustAnchor must be Ed25519 public key(s), 64 hex characters each",
+    });
+  }
+  return issues;
+}
+
+function decodedLength(b64: string | undefined): number | null {
+  if (!b64) return 0;
+  try {
+    return fromB64(b64).length;
+  } catch {
+    return null;
+  }
+}
+
+function isLoopback(hostname: string): boolean {
+  return hostname === "localhost" || hostname === "127.0.0.1" || hostname === "[::1]";
+}
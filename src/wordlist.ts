@@ -0,0 +1,42 @@
+/**
+ * Word list for key fingerprints (256 words, one per byte value).
+ *
+ * Short, concrete, distinct English words that are easy to read aloud
+ * and compare. The order is part of the fingerprint format — never
+ * reorder or replace entries.
+ */
+
+export const FINGERPRINT_WORDS: readonly string[] = [
+  "acid", "acorn", "actor", "adobe", "agent", "alarm", "album", "alpha",
+  "amber", "angle", "ankle", "apple", "apron", "arena", "armor", "arrow",
+  "atlas", "attic", "award", "axis", "bacon", "badge", "bagel", "baker",
+  "bamboo", "banjo", "barrel", "basil", "beach", "beard", "beetle", "bell",
+  "bench", "berry", "bison", "blade", "blanket", "bloom", "board", "bonus",
+  "brick", "bridge", "brush", "bubble", "bucket", "bugle", "cabin", "cactus",
+  "camel", "candle", "canoe", "canyon", "cargo", "carpet", "castle", "cedar",
+  "cello", "chalk", "cherry", "chess", "cider", "circus", "citrus", "cliff",
+  "clock", "cloud", "clover", "cobalt", "cocoa", "comet", "copper", "coral",
+  "cotton", "cougar", "crane", "crater", "crystal", "cube", "daisy", "dance",
+  "delta", "denim", "desert", "diamond", "dingo", "dolphin", "domino", "donkey",
+  "dragon", "drum", "eagle", "easel", "echo", "elbow", "elder", "ember",
+  "emerald", "engine", "falcon", "feather", "fern", "ferry", "fiddle", "fig",
+  "flame", "flint", "flute", "forest", "fossil", "fox", "galaxy", "garden",
+  "garlic", "gecko", "ginger", "globe", "goblet", "granite", "grape", "gravel",
+  "guitar", "hammer", "harbor", "harp", "hazel", "helmet", "heron", "honey",
+  "hornet", "husky", "igloo", "indigo", "iron", "island", "ivory", "jacket",
+  "jaguar", "jelly", "jigsaw", "jungle", "kayak", "kettle", "kiwi", "koala",
+  "ladder", "lagoon", "lantern", "laser", "lemon", "leopard", "lily", "lime",
+  "lizard", "llama", "locket", "lotus", "magnet", "mango", "maple", "marble",
+  "meadow", "melon", "meteor", "mint", "mirror", "mitten", "moose", "mosaic",
+  "muffin", "nectar", "needle", "nickel", "noodle", "nutmeg", "oasis", "ocean",
+  "olive", "onion", "opal", "orbit", "orchid", "otter", "oyster", "paddle",
+  "panda", "parrot", "peach", "pebble", "pepper", "piano", "pigeon", "pillow",
+  "pine", "planet", "plum", "pocket", "polar", "poppy", "prism", "pumpkin",
+  "puzzle", "quartz", "quill", "rabbit", "radar", "radish", "raven", "reef",
+  "ribbon", "river", "robin", "rocket", "ruby", "saddle", "salmon", "satin",
+  "scarf", "shadow", "shell", "silver", "sketch", "sled", "socket", "spider",
+  "spruce", "squid", "stone", "sugar", "summit", "swan", "tango", "teapot",
+  "thunder", "tiger", "timber", "toast", "tomato", "topaz", "torch", "tulip",
+  "turtle", "valley", "velvet", "violin", "volcano", "waffle", "walnut", "walrus",
+  "willow", "window", "wizard", "wolf", "yacht", "zebra", "zinc", "zipper",
+];
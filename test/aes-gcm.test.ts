@@ -0,0 +1,191 @@
+/**
+ * AES-256-GCM suite tests
+ *
+ * Verifies:
+ * - suite: "aes-256-gcm" seals content and key wraps with Web Crypto
+ *   AES-GCM (12-byte nonces), records `aead` accordingly, and opens
+ * - The Web Crypto X25519/HKDF path derives the same KEK as tweetnacl +
+ *   @noble/hashes, and the encoded header is the GCM additional data
+ * - The default suite still records xsalsa20poly1305
+ * - ML-KEM, multi-recipient and threshold envelopes use the suite too
+ * - Hybrid via pqc-shared is skipped without a downgrade; requireKyber
+ *   without mlKem fails and is flagged by validateIntakeConfig
+ * - Tampering (ciphertext or header) and unknown AEADs fail to open
+ *
+ * Usage: npx tsx test/aes-gcm.test.ts
+ */
+
+import { ml_kem768 } from "@noble/post-quantum/ml-kem.js";
+import { submitSecureIntake, validateIntakeConfig } from "../src/index.js";
+import { openIntakeEnvelope, unwrapThresholdShare, openThresholdEnvelope } from "../src/open.js";
+import { encodeEnvelopeHeader } from "../src/header.js";
+import { b64, fromB64, fromHex, hkdfFlex, nacl, toHex } from "../src/primitives.js";
+import type { IntakeConfig } from "../src/types.js";
+import { captureSubmissions, fail, intakeConfig, orgKeys, pass } from "./helpers.js";
+
+interface Inner {
+  suite: string;
+  aead: string;
+  x25519Epk: string;
+  x25519Wrap: { nonce: string; wrapped: string };
+  contentNonce: string;
+  ciphertext: string;
+}
+
+async function gcmDecrypt(key: Uint8Array, ciphertext: Uint8Array, nonce: Uint8Array, ad?: Uint8Array) {
+  const k = await crypto.subtle.importKey("raw", key as Uint8Array<ArrayBuffer>, "AES-GCM", false, ["decrypt"]);
+  return new Uint8Array(
+    await crypto.subtle.decrypt(
+      ad
+        ? { name: "AES-GCM", iv: nonce as Uint8Array<ArrayBuffer>, additionalData: ad as Uint8Array<ArrayBuffer> }
+        : { name: "AES-GCM", iv: nonce as Uint8Array<ArrayBuffer> },
+      k,
+      ciphertext as Uint8Array<ArrayBuffer>
+    )
+  );
+}
+
+async function main() {
+  const { keys: org, publicKeys, secretKeys } = orgKeys(b64(new Uint8Array(1568)));
+  let downgraded = false;
+  const config = intakeConfig(publicKeys, {
+    suite: "aes-256-gcm",
+    onDowngrade: () => {
+      downgraded = true;
+    },
+  });
+
+  const sent = captureSubmissions();
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: X25519 round trip
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const result = await submitSecureIntake({ message: "fips portal" }, config);
+  if (!result.ok) fail(`Submission failed: ${JSON.stringify(result)}`);
+  const wire = sent[0];
+  const inner = JSON.parse(wire.encrypted) as Inner;
+  if (inner.aead !== "aes-256-gcm" || inner.suite !== "x25519" || wire.pqcUsed) {
+    fail(`Unexpected envelope: aead=${inner.aead} suite=${inner.suite}`);
+  }
+  if (fromB64(inner.contentNonce).length !== 12 || fromB64(inner.x25519Wrap.nonce).length !== 12) {
+    fail("AES-GCM nonces are not 12 bytes");
+  }
+  if (downgraded) fail("Skipping pqc-shared emitted a downgrade event");
+  const opened = await openIntakeEnvelope(wire, secretKeys);
+  if (opened.payload.message !== "fips portal" || !opened.idMatches || !opened.header) {
+    fail(`Open failed: ${JSON.stringify(opened)}`);
+  }
+  pass("suite \"aes-256-gcm\" records its AEAD, uses 12-byte nonces and opens");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Interop with the pure-JS derivation
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const shared = nacl.scalarMult(org.secretKey, fromHex(inner.x25519Epk));
+  const kek = hkdfFlex(shared, "omnituum/x25519", "wrap-ck");
+  const CK = await gcmDecrypt(kek, fromB64(inner.x25519Wrap.wrapped), fromB64(inner.x25519Wrap.nonce));
+  const plaintext = new TextDecoder().decode(
+    await gcmDecrypt(CK, fromB64(inner.ciphertext), fromB64(inner.contentNonce), encodeEnvelopeHeader(opened.header!))
+  );
+  if (!plaintext.includes("fips portal")) fail("Manual decryption mismatch");
+  pass("Web Crypto X25519 + HKDF match tweetnacl + @noble/hashes; the header is the GCM additional data");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Default suite unchanged
+  // ═════════════════════════════════════════════════════════════════════════
+
+  await submitSecureIntake({ message: "default" }, { ...config, suite: undefined, attemptHybrid: false });
+  const classic = JSON.parse(sent[sent.length - 1].encrypted) as Inner;
+  if (classic.aead !== "xsalsa20poly1305" || fromB64(classic.contentNonce).length !== 24) {
+    fail(`Default suite changed: ${classic.aead}`);
+  }
+  pass("Default suite is still xsalsa20poly1305");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: ML-KEM, multi-recipient and threshold envelopes
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const mlKem = ml_kem768.keygen();
+  await submitSecureIntake({ message: "pq" }, {
+    ...config,
+    publicKeys: { x25519PubHex: toHex(org.publicKey), kyberPubB64: b64(mlKem.publicKey) },
+    kyberParameterSet: "kyber768",
+    mlKem: "always",
+    requireKyber: true,
+  });
+  const pqWire = sent[sent.length - 1];
+  const pqInner = JSON.parse(pqWire.encrypted) as Inner;
+  if (!pqWire.pqcUsed || pqInner.suite !== "x25519+ml-kem-768" || pqInner.aead !== "aes-256-gcm") {
+    fail(`Unexpected ML-KEM envelope: ${pqInner.suite}/${pqInner.aead}`);
+  }
+  const pqOpened = await openIntakeEnvelope(pqWire, { ...secretKeys, kyberSecB64: b64(mlKem.secretKey) });
+  if (pqOpened.payload.message !== "pq") fail("ML-KEM open failed");
+
+  const other = nacl.box.keyPair();
+  const recipients = [
+    { kid: "a", x25519PubHex: toHex(org.publicKey), kyberPubB64: b64(new Uint8Array(1568)) },
+    { kid: "b", x25519PubHex: toHex(other.publicKey), kyberPubB64: b64(new Uint8Array(1568)) },
+  ];
+  await submitSecureIntake({ message: "teams" }, { ...config, publicKeys: { recipients } });
+  const multi = sent[sent.length - 1];
+  if ((JSON.parse(multi.encrypted) as Inner).aead !== "aes-256-gcm") fail("Multi-recipient aead not recorded");
+  const byB = await openIntakeEnvelope(multi, { x25519SecHex: toHex(other.secretKey) });
+  if (byB.kid !== "b" || byB.payload.message !== "teams") fail("Multi-recipient open failed");
+
+  await submitSecureIntake({ message: "2 of 2" }, { ...config, publicKeys: { trustees: recipients, threshold: 2 } });
+  const thresholdWire = sent[sent.length - 1];
+  const shares = [
+    await unwrapThresholdShare(thresholdWire, secretKeys),
+    await unwrapThresholdShare(thresholdWire, { x25519SecHex: toHex(other.secretKey) }),
+  ];
+  if ((await openThresholdEnvelope(thresholdWire, shares)).payload.message !== "2 of 2") {
+    fail("Threshold open failed");
+  }
+  pass("ML-KEM, multi-recipient and threshold envelopes seal with AES-256-GCM");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: requireKyber without ML-KEM
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const strict = await submitSecureIntake({ message: "strict" }, { ...config, requireKyber: true });
+  if (strict.ok || strict.code !== "pqc_required_unavailable") {
+    fail(`Expected pqc_required_unavailable, got ${JSON.stringify(strict)}`);
+  }
+  const issues = validateIntakeConfig({ ...config, requireKyber: true }).issues;
+  if (!issues.some((i) => i.code === "invalid_suite")) fail("requireKyber without mlKem not flagged");
+  const bogus = validateIntakeConfig({ ...config, suite: "chacha" as IntakeConfig["suite"] }).issues;
+  if (!bogus.some((i) => i.code === "invalid_suite" && i.path === "suite")) fail("Unknown suite not flagged");
+  pass("requireKyber needs mlKem with AES-256-GCM; unknown suites are invalid");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Tampering and unknown AEADs
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const expectThrow = async (label: string, fn: () => Promise<unknown>) => {
+    try {
+      await fn();
+    } catch {
+      return;
+    }
+    fail(label);
+  };
+  const ct = fromB64(inner.ciphertext);
+  ct[0] ^= 1;
+  await expectThrow("Tampered ciphertext opened", () =>
+    openIntakeEnvelope({ ...wire, encrypted: JSON.stringify({ ...inner, ciphertext: b64(ct) }) }, secretKeys)
+  );
+  await expectThrow("Relabelled AEAD opened", () =>
+    openIntakeEnvelope({ ...wire, encrypted: JSON.stringify({ ...inner, aead: "xsalsa20poly1305" }) }, secretKeys)
+  );
+  await expectThrow("Unknown AEAD opened", () =>
+    openIntakeEnvelope({ ...wire, encrypted: JSON.stringify({ ...inner, aead: "chacha20poly1305" }) }, secretKeys)
+  );
+  await expectThrow("Swapped id opened", () => openIntakeEnvelope({ ...wire, id: pqWire.id }, secretKeys));
+  await expectThrow("Stripped hdr opened", () => openIntakeEnvelope({ ...wire, hdr: undefined }, secretKeys));
+  pass("Tampered ciphertexts or headers and unknown or relabelled AEADs fail to open");
+
+  console.log("\n✅ AES-256-GCM tests passed\n");
+}
+
+main();
@@ -0,0 +1,210 @@
+/**
+ * Encrypted attachment tests
+ *
+ * Verifies:
+ * - Attachments upload as encrypted chunks with progress events
+ * - The opener returns the refs and openAttachment() restores the file
+ * - Chunks use the envelope's AEAD (suite "aes-256-gcm" too), recorded in the ref
+ * - A failed upload resumes on retry without resending stored chunks
+ * - Reordered chunks fail to decrypt; oversized attachments are rejected
+ * - Too many attachments, or a payload over maxPlaintextBytes with the
+ *   refs counted, is rejected before anything is uploaded
+ *
+ * Usage: npx tsx test/attachments.test.ts
+ */
+
+import { submitSecureIntake, createMemoryStorage } from "../src/index.js";
+import { openIntakeEnvelope, openAttachment } from "../src/open.js";
+import { blake3, nacl, toHex } from "../src/primitives.js";
+import type { AttachmentProgress, IntakeConfig, IntakeWireEnvelope } from "../src/types.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+// In-memory blob endpoint
+const uploads = new Map<string, Uint8Array[]>();
+const completed = new Map<string, Uint8Array>();
+const sent: IntakeWireEnvelope[] = [];
+let puts = 0;
+let failPutIndex: number | null = null;
+
+globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+  const url = String(input);
+  const blob = url.match(/\/blobs\/([0-9a-f]{64})(?:\/(\d+|complete))?$/);
+  if (!blob) {
+    const envelope = JSON.parse(String(init?.body)) as IntakeWireEnvelope;
+    sent.push(envelope);
+    return new Response(JSON.stringify({ ok: true, id: envelope.id, status: "created" }), { status: 201 });
+  }
+
+  const [, uploadId, part] = blob;
+  const chunks = uploads.get(uploadId) ?? [];
+  if (part === undefined) {
+    if (!uploads.has(uploadId)) return new Response("not found", { status: 404 });
+    return Response.json({ received: [...chunks.keys()].filter((i) => chunks[i] !== undefined) });
+  }
+  if (part === "complete") {
+    const { hash } = JSON.parse(String(init?.body)) as { hash: string };
+    const stored = concat(chunks);
+    if (toHex(blake3(stored)) !== hash) return new Response("hash mismatch", { status: 422 });
+    completed.set(hash, stored);
+    return new Response(null, { status: 204 });
+  }
+  const index = Number(part);
+  if (failPutIndex === index) {
+    failPutIndex = null;
+    return new Response("unavailable", { status: 503 });
+  }
+  puts++;
+  chunks[index] = new Uint8Array(init?.body as Uint8Array);
+  uploads.set(uploadId, chunks);
+  return new Response(null, { status: 201 });
+}) as typeof fetch;
+
+async function main() {
+  const org = nacl.box.keyPair();
+  const progress: AttachmentProgress[] = [];
+  const config: IntakeConfig = {
+    endpoint: "https://example.org/api/intake",
+    publicKeys: { x25519PubHex: toHex(org.publicKey), kyberPubB64: "" },
+    canonicalize: (p) => p as Record<string, unknown>,
+    attemptHybrid: false,
+    storage: createMemoryStorage(),
+    rateLimit: false,
+    attachments: {
+      endpoint: "https://example.org/api/blobs",
+      chunkSize: 1024,
+      maxBytes: 8 * 1024,
+      onProgress: (p) => progress.push(p),
+    },
+  };
+
+  const diagram = new File([new Uint8Array(3000).map((_, i) => (i * 7) % 256)], "diagram.png", { type: "image/png" });
+  const nda = new Blob(["signed NDA"], { type: "text/plain" });
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Resumable upload
+  // ═════════════════════════════════════════════════════════════════════════
+
+  failPutIndex = 2;
+  const first = await submitSecureIntake({ message: "see attached" }, config, { attachments: [diagram, nda] });
+  if (first.ok || first.code !== "attachment_upload_failed" || !first.retryable) {
+    fail(`Expected retryable attachment_upload_failed, got ${JSON.stringify(first)}`);
+  }
+  if (puts !== 2 || sent.length !== 0) fail(`Unexpected state after failure: ${puts} chunks, ${sent.length} envelopes`);
+
+  progress.length = 0;
+  const retry = await submitSecureIntake({ message: "see attached" }, config, { attachments: [diagram, nda] });
+  if (!retry.ok) fail(`Retry failed: ${JSON.stringify(retry)}`);
+  if (puts !== 4) fail(`Retry resent stored chunks (${puts} PUTs, expected 4)`);
+  pass("Failed upload resumes without resending stored chunks");
+
+  const last = progress.filter((p) => p.index === 0).pop();
+  if (last?.uploadedBytes !== 3000 || last.totalBytes !== 3000 || last.name !== "diagram.png") {
+    fail(`Unexpected progress: ${JSON.stringify(progress)}`);
+  }
+  pass("Progress events reach totalBytes per attachment");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Open and decrypt
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const opened = await openIntakeEnvelope(sent[0], { x25519SecHex: toHex(org.secretKey) });
+  if (!opened.idMatches) fail("Content id not verified with attachments present");
+  if ("$attachments" in opened.payload || opened.attachments?.length !== 2) {
+    fail(`Attachment refs not extracted: ${JSON.stringify(opened.attachments)}`);
+  }
+  const [diagramRef, ndaRef] = opened.attachments;
+  if (diagramRef.chunks !== 3 || diagramRef.type !== "image/png") fail(`Bad ref: ${JSON.stringify(diagramRef)}`);
+
+  const restored = await openAttachment(diagramRef, completed.get(diagramRef.hash)!);
+  if (toHex(restored) !== toHex(new Uint8Array(await diagram.arrayBuffer()))) fail("Attachment bytes differ");
+  if (new TextDecoder().decode(await openAttachment(ndaRef, completed.get(ndaRef.hash)!)) !== "signed NDA") {
+    fail("Blob attachment bytes differ");
+  }
+  pass("Opener returns refs; openAttachment restores the files");
+
+  const gcmFile = new File([new Uint8Array(2500).map((_, i) => i % 251)], "scan.pdf", { type: "application/pdf" });
+  const gcm = await submitSecureIntake({ message: "fips" }, { ...config, suite: "aes-256-gcm" }, { attachments: [gcmFile] });
+  if (!gcm.ok) fail(`AES-GCM submission failed: ${JSON.stringify(gcm)}`);
+  const [gcmRef] = (await openIntakeEnvelope(sent[sent.length - 1], { x25519SecHex: toHex(org.secretKey) })).attachments!;
+  if (gcmRef.aead !== "aes-256-gcm" || diagramRef.aead !== "xsalsa20poly1305") {
+    fail(`AEAD not recorded: ${gcmRef.aead}, ${diagramRef.aead}`);
+  }
+  const gcmBytes = completed.get(gcmRef.hash)!;
+  if (toHex(await openAttachment(gcmRef, gcmBytes)) !== toHex(new Uint8Array(await gcmFile.arrayBuffer()))) {
+    fail("AES-GCM attachment bytes differ");
+  }
+  let mislabeled = false;
+  try {
+    await openAttachment({ ...gcmRef, aead: "xsalsa20poly1305" }, gcmBytes);
+  } catch {
+    mislabeled = true;
+  }
+  if (!mislabeled) fail("AES-GCM chunks opened as secretbox");
+  pass("Chunks are sealed with the envelope's AEAD, recorded in the ref");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Tampering and limits
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const chunks = uploads.get(diagramRef.uploadId)!;
+  const reordered = concat([chunks[1], chunks[0], chunks[2]]);
+  const rehashed = { ...diagramRef, hash: toHex(blake3(reordered)) };
+  let threw = false;
+  try {
+    await openAttachment(rehashed, reordered);
+  } catch {
+    threw = true;
+  }
+  if (!threw) fail("Reordered chunks decrypted");
+  pass("Reordered chunks fail authentication");
+
+  const big = new Blob([new Uint8Array(9 * 1024)]);
+  const tooLarge = await submitSecureIntake({ message: "huge" }, config, { attachments: [nda, big] });
+  if (tooLarge.ok || tooLarge.code !== "attachment_too_large" || tooLarge.index !== 1) {
+    fail(`Expected attachment_too_large, got ${JSON.stringify(tooLarge)}`);
+  }
+  pass("Oversized attachment rejected before upload");
+
+  const putsBefore = puts;
+  const uploadsBefore = uploads.size;
+  const fresh = new File(["fresh"], "fresh.txt", { type: "text/plain" });
+  const tooMany = await submitSecureIntake({ message: "many" }, {
+    ...config,
+    attachments: { ...config.attachments!, maxCount: 1 },
+  }, { attachments: [fresh, fresh] });
+  if (tooMany.ok || tooMany.code !== "invalid_payload") fail(`Expected invalid_payload, got ${JSON.stringify(tooMany)}`);
+
+  // Fits without the refs, not with them
+  const message = "x".repeat(600);
+  const tight = { ...config, maxPlaintextBytes: 700 };
+  const bare = await submitSecureIntake({ message }, tight);
+  if (!bare.ok) fail(`Payload without attachments should fit: ${JSON.stringify(bare)}`);
+  const overflow = await submitSecureIntake({ message }, tight, { attachments: [fresh] });
+  if (overflow.ok || overflow.code !== "plaintext_too_large") {
+    fail(`Expected plaintext_too_large, got ${JSON.stringify(overflow)}`);
+  }
+  if (puts !== putsBefore || uploads.size !== uploadsBefore) fail("Attachments uploaded before the size guard");
+  pass("maxCount and the plaintext size guard reject before any upload");
+
+  console.log("\n✅ Attachment tests passed\n");
+}
+
+main();
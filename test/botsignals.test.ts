@@ -0,0 +1,139 @@
+/**
+ * Bot signal tests
+ *
+ * Verifies:
+ * - The collector counts interactions and elapsed time only
+ * - Scoring: honeypot alone is suspicious; fast + no interaction is; either alone is not
+ * - Suspicious submissions get a fake success with a random 64-hex id and nothing
+ *   is sent, even when their payload would fail canonicalize
+ * - includeScore encrypts the score as $bot; the opener strips it and still verifies the id
+ *
+ * Usage: npx tsx test/botsignals.test.ts
+ */
+
+import {
+  submitSecureIntake,
+  createBotSignalCollector,
+  scoreBotSignals,
+  createMemoryStorage,
+  generateRequestId,
+} from "../src/index.js";
+import { openIntakeEnvelope } from "../src/open.js";
+import { nacl, toHex } from "../src/primitives.js";
+import type { IntakeConfig, IntakeWireEnvelope } from "../src/types.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+const HUMAN = { elapsedMs: 20_000, keyEvents: 40, pointerEvents: 12 };
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Collector
+  // ═════════════════════════════════════════════════════════════════════════
+
+  let clock = 1000;
+  const form = new EventTarget();
+  const collector = createBotSignalCollector({ target: form, now: () => clock });
+  form.dispatchEvent(new Event("keydown"));
+  form.dispatchEvent(new Event("keydown"));
+  form.dispatchEvent(new Event("pointerdown"));
+  clock += 4500;
+  const snapshot = collector.snapshot(["", undefined]);
+  if (snapshot.elapsedMs !== 4500 || snapshot.keyEvents !== 2 || snapshot.pointerEvents !== 1) {
+    fail(`Unexpected snapshot: ${JSON.stringify(snapshot)}`);
+  }
+  collector.dispose();
+  form.dispatchEvent(new Event("keydown"));
+  if (collector.snapshot().keyEvents !== 2) fail("Listener not removed by dispose()");
+  pass("Collector counts interactions and elapsed time");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Scoring
+  // ═════════════════════════════════════════════════════════════════════════
+
+  if (scoreBotSignals(HUMAN).suspicious) fail("Human signals scored suspicious");
+  if (!scoreBotSignals({ ...HUMAN, honeypots: ["", "http://spam"] }).suspicious) fail("Filled honeypot not suspicious");
+  if (scoreBotSignals({ ...HUMAN, elapsedMs: 800 }).suspicious) fail("Fast submission alone scored suspicious");
+  if (scoreBotSignals({ ...HUMAN, keyEvents: 0, pointerEvents: 0 }).suspicious) fail("No interaction alone scored suspicious");
+  const bot = scoreBotSignals({ elapsedMs: 800, keyEvents: 0, pointerEvents: 0 });
+  if (!bot.suspicious || bot.reasons.join() !== "too_fast,no_interaction") fail(`Bot not flagged: ${JSON.stringify(bot)}`);
+  if (scoreBotSignals({}).score !== 0) fail("Missing signals counted against the submission");
+  pass("Scoring flags honeypots and fast non-interactive submissions");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Fake success
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const org = nacl.box.keyPair();
+  const config: IntakeConfig = {
+    endpoint: "https://example.org/api/intake",
+    publicKeys: { x25519PubHex: toHex(org.publicKey), kyberPubB64: "" },
+    canonicalize: (p) => p as Record<string, unknown>,
+    attemptHybrid: false,
+    storage: createMemoryStorage(),
+    rateLimit: false,
+    botDetection: { includeScore: true, fakeResponseMs: { min: 0, max: 0 } },
+  };
+
+  const sent: IntakeWireEnvelope[] = [];
+  globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const envelope = JSON.parse(String(init?.body)) as IntakeWireEnvelope;
+    sent.push(envelope);
+    return new Response(JSON.stringify({ ok: true, id: envelope.id, status: "created" }), { status: 201 });
+  }) as typeof fetch;
+
+  const payload = { message: "buy cheap watches" };
+  const honeypotted = await submitSecureIntake(payload, config, { honeypot: "filled" });
+  if (!honeypotted.ok || !/^[0-9a-f]{64}$/.test(honeypotted.id) || honeypotted.id === generateRequestId(payload)) {
+    fail(`Honeypot fake success not realistic: ${JSON.stringify(honeypotted)}`);
+  }
+  const unparseable = await submitSecureIntake(payload, {
+    ...config,
+    canonicalize: () => {
+      throw new Error("missing required field");
+    },
+  }, { honeypot: "filled" });
+  if (!unparseable.ok || !/^[0-9a-f]{64}$/.test(unparseable.id)) {
+    fail(`Invalid bot payload not answered with a fake success: ${JSON.stringify(unparseable)}`);
+  }
+  const fast = await submitSecureIntake(payload, config, {
+    botSignals: { elapsedMs: 200, keyEvents: 0, pointerEvents: 0 },
+  });
+  if (!fast.ok || !/^[0-9a-f]{64}$/.test(fast.id)) fail(`Bot fake success not realistic: ${JSON.stringify(fast)}`);
+  if (sent.length !== 0) fail("Suspicious submission was sent");
+  pass("Suspicious submissions get a plausible fake success and are not sent");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Encrypted score
+  // ═════════════════════════════════════════════════════════════════════════
+
+  for (const serialization of ["json", "jcs"] as const) {
+    const human = { message: "hello", serialization };
+    const result = await submitSecureIntake(human, { ...config, serialization }, {
+      botSignals: { ...HUMAN, elapsedMs: 1500 },
+    });
+    if (!result.ok) fail(`Human submission failed: ${JSON.stringify(result)}`);
+    const opened = await openIntakeEnvelope(sent[sent.length - 1], { x25519SecHex: toHex(org.secretKey) });
+    if (opened.botScore?.score !== 0.5 || opened.botScore.reasons.join() !== "too_fast") {
+      fail(`botScore not recovered: ${JSON.stringify(opened.botScore)}`);
+    }
+    if ("$bot" in opened.payload) fail("$bot not stripped from payload");
+    if (!opened.idMatches) fail(`Content id not verified with $bot present (${serialization})`);
+  }
+  pass("Encrypted bot score recovered by the opener; content id still verifies");
+
+  const reserved = await submitSecureIntake({ $bot: 1 }, config, { botSignals: HUMAN });
+  if (reserved.ok || reserved.code !== "invalid_payload") fail("$bot in payload not rejected");
+  pass("$bot is reserved with includeScore");
+
+  console.log("\n✅ Bot signal tests passed\n");
+}
+
+main();
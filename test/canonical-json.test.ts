@@ -0,0 +1,118 @@
+/**
+ * Unit tests for RFC 8785 canonical JSON
+ *
+ * Verifies:
+ * - Key ordering by UTF-16 code units (RFC 8785 §3.2.3 example)
+ * - JCS number formatting (RFC 8785 §3.2.2.3 examples)
+ * - Rejection of values with no JSON representation
+ * - "jcs" serialization makes request IDs independent of key insertion order
+ *
+ * Usage: npx tsx test/canonical-json.test.ts
+ */
+
+import { canonicalJson, generateRequestId } from "../src/index.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: Key ordering (UTF-16 code units)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const sortingInput = {
+  "\u20ac": "Euro Sign",
+  "\r": "Carriage Return",
+  "\ufb33": "Hebrew Letter Dalet With Dagesh",
+  "1": "One",
+  "\ud83d\ude00": "Emoji: Grinning Face",
+  "\u0080": "Control",
+  "\u00f6": "Latin Small Letter O With Diaeresis",
+};
+
+// Compare serialized order (JSON.parse would hoist the integer-like key "1")
+const expectedOrder = ["\r", "1", "\u0080", "\u00f6", "\u20ac", "\ud83d\ude00", "\ufb33"];
+const sorted = canonicalJson(sortingInput);
+const positions = expectedOrder.map((k) => sorted.indexOf(JSON.stringify(k) + ":"));
+if (positions.some((p, i) => p < 0 || (i > 0 && p < positions[i - 1]))) {
+  fail(`Key ordering: got ${sorted}`);
+}
+pass("Keys sorted by UTF-16 code units (RFC 8785 example)");
+
+const nested = canonicalJson({ b: [3, { z: 1, a: 2 }], a: null, c: true });
+if (nested !== '{"a":null,"b":[3,{"a":2,"z":1}],"c":true}') {
+  fail(`Nested canonical form: got ${nested}`);
+}
+pass("Nested objects sorted, arrays keep order, no whitespace");
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: Number formatting
+// ═══════════════════════════════════════════════════════════════════════════
+
+const numberTests: Array<{ input: number; expected: string }> = [
+  { input: 333333333.33333329, expected: "333333333.3333333" },
+  { input: 1e30, expected: "1e+30" },
+  { input: 4.5, expected: "4.5" },
+  { input: 2e-3, expected: "0.002" },
+  { input: 0.000000000000000000000000001, expected: "1e-27" },
+  { input: -0, expected: "0" },
+];
+
+for (const { input, expected } of numberTests) {
+  const result = canonicalJson(input);
+  if (result !== expected) {
+    fail(`Number ${input}: expected ${expected}, got ${result}`);
+  }
+  pass(`Number formatting: ${expected}`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: Rejections
+// ═══════════════════════════════════════════════════════════════════════════
+
+const rejectTests: Array<{ input: unknown; desc: string }> = [
+  { input: { a: undefined }, desc: "undefined property" },
+  { input: [undefined], desc: "undefined array item" },
+  { input: { a: NaN }, desc: "NaN" },
+  { input: { a: Infinity }, desc: "Infinity" },
+  { input: { a: () => 1 }, desc: "function" },
+  { input: { a: 1n }, desc: "bigint" },
+  { input: { a: new Date(0) }, desc: "non-plain object (Date)" },
+  { input: { a: "\ud800" }, desc: "lone surrogate" },
+];
+
+for (const { input, desc } of rejectTests) {
+  let threw = false;
+  try {
+    canonicalJson(input);
+  } catch {
+    threw = true;
+  }
+  if (!threw) fail(`Expected rejection of ${desc}`);
+  pass(`Rejects ${desc}`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: Request IDs independent of key insertion order in "jcs" mode
+// ═══════════════════════════════════════════════════════════════════════════
+
+const ordered = { kind: "test", email: "a@example.com", tags: ["x", "y"] };
+const reordered = { tags: ["x", "y"], email: "a@example.com", kind: "test" };
+
+if (generateRequestId(ordered) === generateRequestId(reordered)) {
+  fail('"json" mode unexpectedly order-independent');
+}
+pass('"json" mode: key order changes the ID (legacy behavior)');
+
+const jcsId = generateRequestId(ordered, { serialization: "jcs" });
+if (jcsId !== generateRequestId(reordered, { serialization: "jcs" })) {
+  fail('"jcs" mode: key order changed the ID');
+}
+pass('"jcs" mode: key order does not change the ID');
+
+console.log("\n✅ Canonical JSON tests passed\n");
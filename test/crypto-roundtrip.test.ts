@@ -5,6 +5,9 @@
  * - Vector A: Hybrid (X25519 + Kyber) encrypt → hybridDecrypt roundtrip
  * - Vector B: X25519-only encrypt → hybridDecrypt roundtrip (empty Kyber fields)
  * - Strict mode: requireKyber:true → returns policy error, no envelope
+ * - Opener: hybrid wire envelope → openIntakeEnvelope roundtrip
+ * - Opener: hybrid envelope with an authenticated header (content sealed
+ *   here, content key wrapped by pqc-shared) → openIntakeEnvelope
  *
  * Usage: npx tsx test/crypto-roundtrip.test.ts
  */
@@ -20,6 +23,9 @@ import {
 import type { HybridSecretKeys } from "@omnituum/pqc-shared";
 import { encryptX25519Only } from "../src/submit.js";
 import { submitSecureIntake } from "../src/submit.js";
+import { openIntakeEnvelope } from "../src/open.js";
+import { encryptPlaintext } from "../src/encrypt.js";
+import { createEnvelopeHeader } from "../src/header.js";
 import {
   checkCryptoCapability,
   resetCryptoCapabilityCache,
@@ -208,6 +214,62 @@ async function testStrictModeNoDowngrade(): Promise<void> {
   // The roundtrip vectors above already prove both envelope paths work.
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Opener: hybrid wire envelope → openIntakeEnvelope
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function testOpenHybridEnvelope(): Promise<void> {
+  console.log("\n── Opener: hybrid wire envelope ──");
+
+  const payload = JSON.parse(TEST_PLAINTEXT);
+  const envelope = await hybridEncrypt(TEST_PLAINTEXT_BYTES, PUBLIC_KEYS);
+  const wire = JSON.stringify({
+    v: "loggie.intake.v1",
+    id: "0".repeat(64),
+    pqcUsed: true,
+    encrypted: JSON.stringify(envelope),
+  });
+
+  const opened = await openIntakeEnvelope(wire, SECRET_KEYS);
+  assert(opened.plaintext === TEST_PLAINTEXT, "Hybrid opener: plaintext matches");
+  assert(opened.payload.kind === payload.kind, "Hybrid opener: payload parsed");
+  assert(opened.pqcMatches, "Hybrid opener: pqcUsed agrees with suite");
+  assert(!opened.idMatches, "Hybrid opener: bogus wire id reported as mismatch");
+}
+
+async function testOpenHybridHeaderEnvelope(): Promise<void> {
+  console.log("\n── Opener: hybrid envelope with an authenticated header ──");
+
+  const header = createEnvelopeHeader("loggie.intake.v1", "0".repeat(64), "test");
+  const envelope = await encryptPlaintext({
+    plaintext: TEST_PLAINTEXT_BYTES,
+    target: { keys: PUBLIC_KEYS },
+    hybrid: "pqc-shared",
+    aead: ENVELOPE_AEAD,
+    header,
+  });
+  const wire = {
+    v: header.v,
+    id: header.id,
+    pqcUsed: true,
+    hdr: { form: header.form, ts: header.ts, nonce: header.nonce },
+    encrypted: JSON.stringify(envelope),
+  };
+
+  const opened = await openIntakeEnvelope(wire, SECRET_KEYS);
+  assert(opened.plaintext === TEST_PLAINTEXT, "Header opener: plaintext matches");
+  assert(opened.header?.suite === envelope.suite && envelope.suite !== "x25519", "Header opener: hybrid suite bound");
+  assert(opened.kid === undefined && opened.recipients === undefined, "Header opener: reported as a single-key envelope");
+
+  let rejected = false;
+  try {
+    await openIntakeEnvelope({ ...wire, pqcUsed: false }, SECRET_KEYS);
+  } catch {
+    rejected = true;
+  }
+  assert(rejected, "Header opener: flipped pqcUsed fails to open");
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Run all tests
 // ═══════════════════════════════════════════════════════════════════════════
@@ -221,6 +283,8 @@ async function main() {
     await testVectorB();
     await testEnvelopeShapeContract();
     await testStrictModeNoDowngrade();
+    await testOpenHybridEnvelope();
+    await testOpenHybridHeaderEnvelope();
   } catch (err) {
     console.error("\nFatal error:", err);
     process.exit(1);
@@ -0,0 +1,161 @@
+/**
+ * Worker encryption tests
+ *
+ * Verifies:
+ * - encryptInWorker runs the job in a module worker (encrypt-worker.js),
+ *   transferring a copy of the plaintext, and the envelope opens
+ * - Hybrid failures inside the worker still downgrade (or fail with
+ *   requireKyber) like in-thread encryption
+ * - Blocked workers (no Worker, constructor throws, script load error)
+ *   fall back to in-thread encryption
+ * - A worker that never replies is terminated after the timeout and the
+ *   job runs in-thread
+ * - No worker is created before submit
+ *
+ * The worker is simulated in-process: a fake Worker hands messages to the
+ * real worker entry's onmessage handler.
+ *
+ * Usage: npx tsx test/encrypt-worker.test.ts
+ */
+
+import { submitSecureIntake } from "../src/index.js";
+import { openIntakeEnvelope } from "../src/open.js";
+import { b64 } from "../src/primitives.js";
+import type { IntakeConfig } from "../src/types.js";
+import { captureSubmissions, fail, intakeConfig, orgKeys, pass } from "./helpers.js";
+
+type Mode = "run" | "throw" | "load-error" | "hang";
+
+const workerScope: {
+  onmessage: ((event: { data: unknown }) => void) | null;
+  postMessage(message: unknown): void;
+} = { onmessage: null, postMessage: () => {} };
+
+const created: Array<{ url: string; type?: string; transfer: Transferable[]; terminated: boolean }> = [];
+let mode: Mode = "run";
+
+class FakeWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { preventDefault(): void }) => void) | null = null;
+  private record: (typeof created)[number];
+
+  constructor(url: URL, opts?: { type?: string }) {
+    if (mode === "throw") throw new Error("SecurityError: worker-src blocked");
+    this.record = { url: String(url), type: opts?.type, transfer: [], terminated: false };
+    created.push(this.record);
+  }
+
+  postMessage(message: unknown, transfer: Transferable[] = []) {
+    this.record.transfer = transfer;
+    if (mode === "hang") return;
+    setTimeout(() => {
+      if (mode === "load-error") {
+        this.onerror?.({ preventDefault: () => {} });
+        return;
+      }
+      workerScope.postMessage = (reply) => this.onmessage?.({ data: reply });
+      workerScope.onmessage?.({ data: message });
+    }, 0);
+  }
+
+  terminate() {
+    this.record.terminated = true;
+  }
+}
+
+async function main() {
+  const { publicKeys, secretKeys } = orgKeys(b64(new Uint8Array(1568)));
+  let downgrades = 0;
+  const config = intakeConfig(publicKeys, {
+    encryptInWorker: true,
+    onDowngrade: () => {
+      downgrades++;
+    },
+  });
+
+  const sent = captureSubmissions();
+
+  const submitAndOpen = async (message: string, extra: Partial<IntakeConfig> = {}) => {
+    const result = await submitSecureIntake({ message }, { ...config, ...extra });
+    if (!result.ok) fail(`Submission failed: ${JSON.stringify(result)}`);
+    const opened = await openIntakeEnvelope(sent[sent.length - 1], secretKeys);
+    if (opened.payload.message !== message || !opened.idMatches) fail(`Open failed: ${JSON.stringify(opened)}`);
+  };
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: No Worker (Node, SSR)
+  // ═════════════════════════════════════════════════════════════════════════
+
+  await submitAndOpen("no worker", { attemptHybrid: false });
+  pass("Without Worker, encryptInWorker encrypts in-thread");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Worker round trip
+  // ═════════════════════════════════════════════════════════════════════════
+
+  (globalThis as { self?: unknown }).self = workerScope;
+  (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+  await import("../src/encrypt-worker.js");
+  if (created.length !== 0) fail("Worker created before submit");
+
+  await submitAndOpen("in worker", { attemptHybrid: false });
+  const [job] = created;
+  if (created.length !== 1 || !job.url.endsWith("/encrypt-worker.js") || job.type !== "module") {
+    fail(`Unexpected worker: ${JSON.stringify(created)}`);
+  }
+  if (job.transfer.length !== 1 || !job.terminated) fail("Plaintext not transferred or worker not terminated");
+  pass("encryptInWorker encrypts in encrypt-worker.js with the plaintext transferred");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Hybrid failure inside the worker
+  // ═════════════════════════════════════════════════════════════════════════
+
+  created.length = 0;
+  await submitAndOpen("hybrid in worker");
+  const pqcUsed = sent[sent.length - 1].pqcUsed;
+  if (!pqcUsed && (downgrades !== 1 || created.length !== 2)) {
+    fail(`Expected a downgrade and an X25519 retry in a second worker (${downgrades}, ${created.length})`);
+  }
+  if (!pqcUsed) {
+    const strict = await submitSecureIntake({ message: "strict" }, { ...config, requireKyber: true });
+    if (strict.ok || strict.code !== "pqc_required_unavailable") {
+      fail(`Expected pqc_required_unavailable, got ${JSON.stringify(strict)}`);
+    }
+  }
+  pass("Hybrid errors in the worker downgrade (or fail with requireKyber) as in-thread");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Blocked workers fall back
+  // ═════════════════════════════════════════════════════════════════════════
+
+  mode = "throw";
+  await submitAndOpen("constructor blocked", { attemptHybrid: false });
+  mode = "load-error";
+  created.length = 0;
+  await submitAndOpen("script blocked", { attemptHybrid: false });
+  if (created.length !== 1 || !created[0].terminated) fail("Failed worker not terminated");
+  pass("Blocked worker construction or script load falls back to in-thread");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Stalled worker times out
+  // ═════════════════════════════════════════════════════════════════════════
+
+  // Shorten the worker timeout instead of waiting it out
+  const timeout = globalThis.setTimeout;
+  const delays: number[] = [];
+  globalThis.setTimeout = ((fn: () => void, ms?: number) => {
+    delays.push(ms ?? 0);
+    return timeout(fn, 10);
+  }) as typeof setTimeout;
+  mode = "hang";
+  created.length = 0;
+  await submitAndOpen("worker stalled", { attemptHybrid: false });
+  globalThis.setTimeout = timeout;
+  if (created.length !== 1 || !created[0].terminated) fail("Stalled worker not terminated");
+  if (!delays.some((ms) => ms >= 10_000)) fail(`Worker timeout not armed: ${delays}`);
+  pass("A stalled worker is terminated on timeout and the job runs in-thread");
+
+  console.log("\n✅ Worker encryption tests passed\n");
+}
+
+main();
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for typed submission failures
+ *
+ * Verifies:
+ * - Every code maps to its documented `retryable` flag
+ * - Code-specific details pass through submitFailure() unchanged
+ * - Retry-After parsing: delta-seconds, HTTP-date, past dates, garbage
+ *
+ * Usage: npx tsx test/errors.test.ts
+ */
+
+import { submitFailure, parseRetryAfter } from "../src/errors.js";
+import type { SubmitErrorCode } from "../src/types.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+const EXPECTED_RETRYABLE: Record<SubmitErrorCode, boolean> = {
+  rate_limited: true,
+  plaintext_too_large: false,
+  envelope_too_large: false,
+  pqc_required_unavailable: false,
+  public_key_unavailable: false,
+  public_key_invalid: false,
+  keyset_unavailable: true,
+  keyset_invalid: false,
+  challenge_unavailable: true,
+  attachment_too_large: false,
+  attachment_upload_failed: true,
+  crypto_unavailable: false,
+  invalid_payload: false,
+  client_error: false,
+  server_error: true,
+  network_error: true,
+  aborted: false,
+  invalid_response: false,
+  internal_error: false,
+};
+
+function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: code → retryable
+  // ═════════════════════════════════════════════════════════════════════════
+
+  for (const [code, retryable] of Object.entries(EXPECTED_RETRYABLE) as Array<[SubmitErrorCode, boolean]>) {
+    // Details are code-specific; the flag doesn't depend on them
+    const failure = submitFailure(code, {} as never);
+    if (failure.ok !== false || failure.code !== code || failure.retryable !== retryable) {
+      fail(`${code}: ${JSON.stringify(failure)}`);
+    }
+  }
+  pass("Every failure code carries its documented retryable flag");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: details payloads
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const tooLarge = submitFailure("plaintext_too_large", { size: 40000, limit: 32768, error: "too big" });
+  if (tooLarge.size !== 40000 || tooLarge.limit !== 32768 || tooLarge.error !== "too big") {
+    fail(`plaintext_too_large details: ${JSON.stringify(tooLarge)}`);
+  }
+  const server = submitFailure("server_error", { status: 503 });
+  if (server.status !== 503 || server.error !== undefined) fail(`server_error details: ${JSON.stringify(server)}`);
+  const network = submitFailure("network_error", { timedOut: true, queued: true });
+  if (!network.timedOut || !network.queued) fail(`network_error details: ${JSON.stringify(network)}`);
+  const limited = submitFailure("rate_limited", { retryAfterMs: 1500 });
+  if (limited.retryAfterMs !== 1500) fail(`rate_limited details: ${JSON.stringify(limited)}`);
+  const keyInvalid = submitFailure("public_key_invalid", { reason: "fingerprint_mismatch" });
+  if (keyInvalid.reason !== "fingerprint_mismatch") fail(`public_key_invalid details: ${JSON.stringify(keyInvalid)}`);
+  pass("Code-specific details and the optional message pass through");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Retry-After parsing
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const now = Date.parse("2025-01-01T00:00:00Z");
+  const cases: Array<[string | null, number | undefined]> = [
+    [null, undefined],
+    ["", undefined],
+    ["0", 0],
+    ["120", 120000],
+    ["1.5", 1500],
+    ["Wed, 01 Jan 2025 00:00:30 GMT", 30000],
+    ["Tue, 31 Dec 2024 23:59:00 GMT", 0], // past date: retry now
+    ["-5", undefined],
+    ["soon", undefined],
+  ];
+  for (const [header, expected] of cases) {
+    const got = parseRetryAfter(header, now);
+    if (got !== expected) fail(`parseRetryAfter(${JSON.stringify(header)}) = ${got}, expected ${expected}`);
+  }
+  pass("Retry-After: delta-seconds, HTTP-date, past dates clamp to 0, garbage ignored");
+
+  console.log("\n✅ Error tests passed\n");
+}
+
+main();
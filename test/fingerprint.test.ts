@@ -0,0 +1,76 @@
+/**
+ * Key fingerprint rendering tests
+ *
+ * Verifies:
+ * - Golden vector for hex / hex groups / safety number / words
+ *   (the format is compared against offline tooling — it must not drift)
+ * - Word list has 256 distinct entries
+ * - Keyrings fingerprint the key selected for encryption
+ *
+ * Usage: npx tsx test/fingerprint.test.ts
+ */
+
+import { getKeyFingerprint, computePublicKeyFingerprint } from "../src/index.js";
+import { FINGERPRINT_WORDS } from "../src/wordlist.js";
+import { b64 } from "../src/primitives.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+// Golden X25519 public key (pqc-shared/tests/golden/identity.json) and a
+// fixed 1568-byte Kyber key (bytes 0..255 repeating)
+const KEYS = {
+  x25519PubHex: "0cb7663e9db84e11150aaef7653bcb98faff8f9b5cdda4c944ea5d02ff792f68",
+  kyberPubB64: b64(new Uint8Array(1568).map((_, i) => i % 256)),
+};
+
+const EXPECTED = {
+  hex: "e095109e1be8e1b07b2a4939287a41d47575e353432056d8d9723da9c643e98c",
+  hexGroups: "E095 109E 1BE8 E1B0 7B2A 4939 287A 41D4 7575 E353 4320 56D8 D972 3DA9 C643 E98C",
+  safetyNumber: "68539 52138 66657 26931 71353 08259",
+  words: ["spruce", "leopard", "atlas", "maple", "basil", "thunder", "squid", "olive"],
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: Golden vector
+// ═══════════════════════════════════════════════════════════════════════════
+
+const fp = getKeyFingerprint(KEYS);
+if (fp.hex !== EXPECTED.hex) fail(`hex mismatch: ${fp.hex}`);
+if (fp.hex !== computePublicKeyFingerprint(KEYS)) fail("hex differs from computePublicKeyFingerprint");
+if (fp.hexGroups !== EXPECTED.hexGroups) fail(`hexGroups mismatch: ${fp.hexGroups}`);
+if (fp.safetyNumber !== EXPECTED.safetyNumber) fail(`safetyNumber mismatch: ${fp.safetyNumber}`);
+if (fp.words.join(" ") !== EXPECTED.words.join(" ")) fail(`words mismatch: ${fp.words.join(" ")}`);
+pass("Golden fingerprint renderings stable");
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: Word list
+// ═══════════════════════════════════════════════════════════════════════════
+
+if (FINGERPRINT_WORDS.length !== 256 || new Set(FINGERPRINT_WORDS).size !== 256) {
+  fail("Word list must have 256 distinct words");
+}
+pass("Word list has 256 distinct words");
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: Keyring
+// ═══════════════════════════════════════════════════════════════════════════
+
+const fromKeyring = getKeyFingerprint({
+  keys: [
+    { kid: "old", x25519PubHex: "11".repeat(32), kyberPubB64: "", notAfter: "2020-01-01T00:00:00Z" },
+    { kid: "current", ...KEYS },
+  ],
+});
+if (fromKeyring.kid !== "current" || fromKeyring.hex !== EXPECTED.hex) {
+  fail(`Keyring fingerprint used the wrong key: ${JSON.stringify(fromKeyring)}`);
+}
+pass("Keyring fingerprints the selected key (with kid)");
+
+console.log("\n✅ Fingerprint tests passed\n");
@@ -0,0 +1,123 @@
+/**
+ * Authenticated header tests
+ *
+ * Verifies:
+ * - By default, the header (version, id, pqcUsed, suite, form, timestamp,
+ *   nonce) is bound to the content AEAD as associated data: `v`, `id` and
+ *   `pqcUsed` stay on the wire, the rest travels as `hdr`, nothing is added
+ *   to the plaintext
+ * - The opener rebuilds it from the wire: swapped ids, flipped pqcUsed,
+ *   edited / stripped `hdr` fields and an edited suite fail to open
+ * - Each envelope gets a fresh nonce; authenticatedHeader: false omits it
+ *
+ * Usage: npx tsx test/header.test.ts
+ */
+
+import { submitSecureIntake } from "../src/index.js";
+import { openIntakeEnvelope } from "../src/open.js";
+import { nacl, toHex } from "../src/primitives.js";
+import type { IntakeWireEnvelope, OmniMultiRecipientV1 } from "../src/types.js";
+import { captureSubmissions, fail, intakeConfig, orgKeys, pass } from "./helpers.js";
+
+async function rejects(envelope: IntakeWireEnvelope, secretKeys: { x25519SecHex: string }): Promise<boolean> {
+  try {
+    await openIntakeEnvelope(envelope, secretKeys);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+async function main() {
+  const { publicKeys, secretKeys } = orgKeys();
+  const config = intakeConfig(publicKeys, { attemptHybrid: false });
+
+  const sent = captureSubmissions();
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Header round trip
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const before = Date.now();
+  for (const message of ["first report", "second report"]) {
+    const result = await submitSecureIntake({ kind: "vuln_report", message }, config);
+    if (!result.ok) fail(`Submission failed: ${JSON.stringify(result)}`);
+  }
+  const [first, second] = sent;
+  if (first.hdr?.form !== "vuln_report" || first.hdr.ts < before || !/^[0-9a-f]{32}$/.test(first.hdr.nonce)) {
+    fail(`Unexpected wire header: ${JSON.stringify(first.hdr)}`);
+  }
+  if (first.hdr.nonce === second.hdr?.nonce) fail("Nonce reused across envelopes");
+
+  const opened = await openIntakeEnvelope(first, secretKeys);
+  if (!opened.idMatches || Object.keys(opened.payload).join() !== "kind,message") {
+    fail(`Unexpected payload: ${JSON.stringify(opened)}`);
+  }
+  const { header } = opened;
+  if (
+    header?.id !== first.id ||
+    header.v !== first.v ||
+    header.pqcUsed !== false ||
+    header.suite !== "x25519" ||
+    header.nonce !== first.hdr.nonce
+  ) {
+    fail(`Unexpected authenticated header: ${JSON.stringify(header)}`);
+  }
+  pass("Header on by default, bound as associated data and verified on open");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Tampered wire metadata
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const tampered: Array<[string, IntakeWireEnvelope]> = [
+    ["swapped id", { ...first, id: second.id }],
+    ["flipped pqcUsed", { ...first, pqcUsed: true }],
+    ["edited version", { ...first, v: "loggie.intake.v2" }],
+    ["replayed with a new nonce", { ...first, hdr: { ...first.hdr, nonce: second.hdr!.nonce } }],
+    ["edited timestamp", { ...first, hdr: { ...first.hdr, ts: first.hdr.ts + 60_000 } }],
+    ["stripped hdr", { ...first, hdr: undefined }],
+  ];
+  for (const [label, envelope] of tampered) {
+    if (!(await rejects(envelope, secretKeys))) fail(`Opened despite ${label}`);
+  }
+  pass("Swapped ids, flipped pqcUsed and edited or stripped hdr fields fail to open");
+
+  // A multi-recipient envelope's suite is only read for the header
+  const team = nacl.box.keyPair();
+  const teamKeys = { x25519SecHex: toHex(team.secretKey) };
+  const teamConfig = intakeConfig(
+    { recipients: [{ kid: "team", x25519PubHex: toHex(team.publicKey), kyberPubB64: "" }] },
+    { attemptHybrid: false }
+  );
+  await submitSecureIntake({ message: "to the team" }, teamConfig);
+  const teamWire = sent[sent.length - 1];
+  const inner = JSON.parse(teamWire.encrypted) as OmniMultiRecipientV1;
+  if ((await openIntakeEnvelope(teamWire, teamKeys)).header?.suite !== "x25519") {
+    fail("Multi-recipient header not verified");
+  }
+  const swapped = { ...teamWire, encrypted: JSON.stringify({ ...inner, suite: "x25519+ml-kem-768" }) };
+  if (!(await rejects(swapped, teamKeys))) fail("Opened despite an edited suite");
+  pass("The header records the exact suite id");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Config
+  // ═════════════════════════════════════════════════════════════════════════
+
+  await submitSecureIntake({ kind: "vuln_report", message: "named" }, { ...config, formKind: "security" });
+  if (sent[sent.length - 1].hdr?.form !== "security") fail("formKind not recorded");
+
+  await submitSecureIntake({ message: "headerless" }, { ...config, authenticatedHeader: false });
+  const headerless = sent[sent.length - 1];
+  const openedHeaderless = await openIntakeEnvelope(headerless, secretKeys);
+  if (headerless.hdr || openedHeaderless.header) {
+    fail("authenticatedHeader: false still produced a header");
+  }
+  if (!(await rejects({ ...headerless, hdr: first.hdr }, secretKeys))) {
+    fail("Opened despite a wire hdr added in transit");
+  }
+  pass("formKind override, opt-out and injected hdr");
+
+  console.log("\n✅ Header tests passed\n");
+}
+
+main();
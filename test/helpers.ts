@@ -0,0 +1,63 @@
+/**
+ * Shared setup for the submission tests
+ *
+ * - fail / pass: report a check (fail exits non-zero)
+ * - orgKeys(): a fresh X25519 org keypair as public / secret key configs
+ * - intakeConfig(): endpoint, identity canonicalize, memory storage and no
+ *   rate limiting, plus the test's own options
+ * - captureSubmissions(): stubs fetch to accept every envelope and returns
+ *   the list it records them in
+ *
+ * Not a test itself; imported by test/*.test.ts.
+ */
+
+import { createMemoryStorage } from "../src/index.js";
+import { nacl, toHex } from "../src/primitives.js";
+import type { IntakeConfig, IntakeWireEnvelope } from "../src/types.js";
+
+export function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+export function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+/**
+ * X25519 org keypair. `kyberPubB64` defaults to none; pass a dummy key
+ * (e.g. 1568 zero bytes) to make hybrid attempts fail and downgrade.
+ */
+export function orgKeys(kyberPubB64 = "") {
+  const keys = nacl.box.keyPair();
+  return {
+    keys,
+    publicKeys: { x25519PubHex: toHex(keys.publicKey), kyberPubB64 },
+    secretKeys: { x25519SecHex: toHex(keys.secretKey) },
+  };
+}
+
+export function intakeConfig(
+  publicKeys: IntakeConfig["publicKeys"],
+  options: Partial<IntakeConfig> = {}
+): IntakeConfig {
+  return {
+    endpoint: "https://example.org/api/intake",
+    publicKeys,
+    canonicalize: (p) => p as Record<string, unknown>,
+    storage: createMemoryStorage(),
+    rateLimit: false,
+    ...options,
+  };
+}
+
+/** Stub fetch to accept every envelope (201); returns the envelopes sent. */
+export function captureSubmissions(): IntakeWireEnvelope[] {
+  const sent: IntakeWireEnvelope[] = [];
+  globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const envelope = JSON.parse(String(init?.body)) as IntakeWireEnvelope;
+    sent.push(envelope);
+    return new Response(JSON.stringify({ ok: true, id: envelope.id, status: "created" }), { status: 201 });
+  }) as typeof fetch;
+  return sent;
+}
@@ -0,0 +1,106 @@
+/**
+ * idStrategy "random" tests
+ *
+ * Verifies:
+ * - A retry after a network failure reuses the pending random id
+ * - A fresh submission of identical content after success gets a new id
+ * - idempotencyKey is used as the id
+ * - The opener verifies the random id committed inside the plaintext
+ *
+ * Usage: npx tsx test/id-strategy.test.ts
+ */
+
+import {
+  submitSecureIntake,
+  createMemoryStorage,
+  createIdempotencyKey,
+  listPendingSubmissions,
+} from "../src/index.js";
+import { openIntakeEnvelope } from "../src/open.js";
+import { nacl, toHex } from "../src/primitives.js";
+import type { IntakeConfig, IntakeWireEnvelope } from "../src/types.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+const ORG = nacl.box.keyPair();
+const PAYLOAD = { message: "printer on fire" };
+
+const config: IntakeConfig = {
+  endpoint: "https://example.org/api/intake",
+  publicKeys: { x25519PubHex: toHex(ORG.publicKey), kyberPubB64: "" },
+  canonicalize: (p) => ({ kind: "incident", message: (p as typeof PAYLOAD).message }),
+  attemptHybrid: false,
+  idStrategy: "random",
+  storage: createMemoryStorage(),
+  rateLimit: false,
+};
+
+// Fake endpoint: records envelopes, optionally drops the connection
+const sent: IntakeWireEnvelope[] = [];
+let offline = false;
+globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+  const envelope = JSON.parse(String(init?.body)) as IntakeWireEnvelope;
+  sent.push(envelope);
+  if (offline) throw new TypeError("Failed to fetch");
+  return new Response(JSON.stringify({ ok: true, id: envelope.id, status: "created" }), { status: 201 });
+}) as typeof fetch;
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Retry reuses the pending id
+  // ═════════════════════════════════════════════════════════════════════════
+
+  offline = true;
+  const first = await submitSecureIntake(PAYLOAD, config);
+  if (first.ok || first.code !== "network_error") fail(`Expected network_error, got ${JSON.stringify(first)}`);
+  const pending = await listPendingSubmissions(config);
+  if (pending.length !== 1 || !pending[0].contentId) fail(`Pending entry missing: ${JSON.stringify(pending)}`);
+
+  offline = false;
+  const retry = await submitSecureIntake(PAYLOAD, config);
+  if (!retry.ok || retry.id !== sent[0].id) fail("Retry did not reuse the pending random id");
+  pass("Retry after network failure reuses the random id");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Fresh submission creates a new record
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const again = await submitSecureIntake(PAYLOAD, config);
+  if (!again.ok || again.id === retry.id) fail("Identical fresh submission reused the old id");
+  pass("Identical submission after success gets a new id");
+
+  const key = createIdempotencyKey();
+  const keyed = await submitSecureIntake(PAYLOAD, config, { idempotencyKey: key });
+  if (!keyed.ok || keyed.id !== key) fail("idempotencyKey not used as id");
+  pass("idempotencyKey used as the request id");
+
+  const contentMode = await submitSecureIntake(PAYLOAD, { ...config, idStrategy: "content" }, { idempotencyKey: key });
+  if (contentMode.ok || contentMode.code !== "invalid_payload") fail("idempotencyKey accepted in content mode");
+  pass('idempotencyKey rejected without idStrategy: "random"');
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Opener verifies the committed id
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const opened = await openIntakeEnvelope(sent[sent.length - 1], { x25519SecHex: toHex(ORG.secretKey) });
+  if (opened.idStrategy !== "random" || !opened.idMatches) fail(`Opener did not verify random id: ${JSON.stringify(opened)}`);
+  if ("$id" in opened.payload) fail("$id not stripped from payload");
+  // The authenticated header already rejects a swapped wire id; without
+  // it, the id committed in the plaintext still catches it
+  await submitSecureIntake({ message: "headerless" }, { ...config, authenticatedHeader: false });
+  const headerless = sent[sent.length - 1];
+  const swapped = await openIntakeEnvelope({ ...headerless, id: key }, { x25519SecHex: toHex(ORG.secretKey) });
+  if (swapped.idMatches) fail("Swapped random id not detected");
+  pass("Opener verifies the random id committed in the plaintext");
+
+  console.log("\n✅ idStrategy tests passed\n");
+}
+
+main();
@@ -0,0 +1,98 @@
+/**
+ * Keyring (key rotation) tests
+ *
+ * Verifies:
+ * - selectPublicKey picks the newest valid active key
+ * - Retired/revoked keys are skipped; graceMs bridges gaps
+ * - openIntakeEnvelope routes by wire `kid`, and tries every key without one
+ *
+ * Usage: npx tsx test/keyring.test.ts
+ */
+
+import { selectPublicKey } from "../src/index.js";
+import { encryptX25519Only } from "../src/submit.js";
+import { openIntakeEnvelope } from "../src/open.js";
+import { nacl, toHex } from "../src/primitives.js";
+import type { PublicKeyring } from "../src/types.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+const OLD = nacl.box.keyPair();
+const NEW = nacl.box.keyPair();
+
+const JAN = Date.parse("2026-01-01T00:00:00Z");
+const JUL = Date.parse("2026-07-01T00:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+const keyring: PublicKeyring = {
+  keys: [
+    { kid: "2026-01", x25519PubHex: toHex(OLD.publicKey), kyberPubB64: "", notBefore: JAN, notAfter: "2026-07-08T00:00:00Z" },
+    { kid: "2026-07", x25519PubHex: toHex(NEW.publicKey), kyberPubB64: "", notBefore: JUL },
+  ],
+  graceMs: 2 * DAY,
+};
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Selection
+  // ═════════════════════════════════════════════════════════════════════════
+
+  if (selectPublicKey(keyring, JAN + DAY)?.kid !== "2026-01") fail("Expected old key before rotation");
+  if (selectPublicKey(keyring, JUL + DAY)?.kid !== "2026-07") fail("Expected newest key during overlap");
+  pass("Newest valid key selected");
+
+  const early = selectPublicKey(keyring, JAN - DAY);
+  if (early?.kid !== "2026-01") fail(`Grace period not applied: ${JSON.stringify(early)}`);
+  if (selectPublicKey(keyring, JAN - 3 * DAY) !== null) fail("Key outside grace should not be used");
+  pass("graceMs bridges a key that is not yet valid");
+
+  const revoked: PublicKeyring = {
+    keys: keyring.keys.map((k) => (k.kid === "2026-07" ? { ...k, status: "revoked" as const } : k)),
+  };
+  if (selectPublicKey(revoked, JUL + DAY)?.kid !== "2026-01") fail("Revoked key selected");
+  pass("Revoked keys skipped");
+
+  const single = selectPublicKey({ x25519PubHex: "aa", kyberPubB64: "bb" });
+  if (!single || single.kid !== undefined) fail("Bare key pair should select without kid");
+  pass("Bare key pair selected without kid");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Opening by kid
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const plaintext = JSON.stringify({ kind: "test", message: "rotation" });
+  const encrypted = await encryptX25519Only(new TextEncoder().encode(plaintext), toHex(NEW.publicKey));
+  const wire = { v: "loggie.intake.v1", id: "0".repeat(64), pqcUsed: false, encrypted: JSON.stringify(encrypted) };
+  const secretKeyring = {
+    keys: [
+      { kid: "2026-01", x25519SecHex: toHex(OLD.secretKey) },
+      { kid: "2026-07", x25519SecHex: toHex(NEW.secretKey) },
+    ],
+  };
+
+  const byKid = await openIntakeEnvelope({ ...wire, kid: "2026-07" }, secretKeyring);
+  if (byKid.plaintext !== plaintext || byKid.kid !== "2026-07") fail("Open by kid failed");
+  pass("Envelope opened with the key named by kid");
+
+  const scanned = await openIntakeEnvelope(wire, secretKeyring);
+  if (scanned.kid !== "2026-07") fail("Kid-less envelope not matched by scanning");
+  pass("Kid-less envelope opened by trying each key");
+
+  try {
+    await openIntakeEnvelope({ ...wire, kid: "2025-01" }, secretKeyring);
+    fail("Unknown kid should throw");
+  } catch {
+    pass("Unknown kid throws");
+  }
+
+  console.log("\n✅ Keyring tests passed\n");
+}
+
+main();
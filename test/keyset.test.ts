@@ -0,0 +1,135 @@
+/**
+ * Signed keyset tests
+ *
+ * Verifies:
+ * - signKeyset → verifyKeyset roundtrip against the pinned signing key
+ * - Tampered, expired and wrongly-signed keysets are rejected
+ * - resolvePublicKeys caches verified keysets
+ * - submitSecureIntake refuses to encrypt when verification fails
+ * - A malformed keyset body is invalid; only fetch failures are unavailable
+ *
+ * Usage: npx tsx test/keyset.test.ts
+ */
+
+import {
+  resolvePublicKeys,
+  verifyKeyset,
+  signKeyset,
+  resetKeysetCache,
+  submitSecureIntake,
+  createMemoryStorage,
+} from "../src/index.js";
+import { loadKeyset } from "../src/keyset.js";
+import { nacl, toHex } from "../src/primitives.js";
+import type { SignedKeyset } from "../src/types.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+function expectThrow(fn: () => unknown, msg: string): void {
+  try {
+    fn();
+  } catch {
+    pass(msg);
+    return;
+  }
+  fail(`${msg} (did not throw)`);
+}
+
+const SIGNER = nacl.sign.keyPair();
+const OTHER_SIGNER = nacl.sign.keyPair();
+const TRUST_ANCHOR = toHex(SIGNER.publicKey);
+const ORG = nacl.box.keyPair();
+
+const KEYSET: SignedKeyset["keyset"] = {
+  v: "omnituum.keyset.v1",
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+  keys: [{ kid: "2026-07", x25519PubHex: toHex(ORG.publicKey), kyberPubB64: "" }],
+};
+
+const realFetch = globalThis.fetch;
+let fetches: string[] = [];
+
+function serve(document: unknown): void {
+  fetches = [];
+  globalThis.fetch = (async (input: RequestInfo | URL) => {
+    fetches.push(String(input));
+    return new Response(JSON.stringify(document), { status: 200 });
+  }) as typeof fetch;
+}
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Signature verification
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const signed = signKeyset(KEYSET, toHex(SIGNER.secretKey));
+  const keyring = verifyKeyset(signed, TRUST_ANCHOR);
+  if (keyring.keys[0]?.kid !== "2026-07") fail("Verified keyring missing keys");
+  pass("Signed keyset verifies against the trust anchor");
+
+  expectThrow(
+    () => verifyKeyset({ ...signed, keyset: { ...KEYSET, keys: [{ ...KEYSET.keys[0], kid: "evil" }] } }, TRUST_ANCHOR),
+    "Tampered keyset rejected"
+  );
+  expectThrow(
+    () => verifyKeyset(signKeyset(KEYSET, toHex(OTHER_SIGNER.secretKey)), TRUST_ANCHOR),
+    "Keyset signed by an unpinned key rejected"
+  );
+  const expired = signKeyset({ ...KEYSET, expiresAt: "2020-01-01T00:00:00Z" }, toHex(SIGNER.secretKey));
+  expectThrow(() => verifyKeyset(expired, TRUST_ANCHOR), "Expired keyset rejected");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Fetch + cache
+  // ═════════════════════════════════════════════════════════════════════════
+
+  serve(signed);
+  const source = { keysetUrl: "https://example.org/keyset.json", trustAnchor: TRUST_ANCHOR };
+  await resolvePublicKeys(source);
+  await resolvePublicKeys(source);
+  if (fetches.length !== 1) fail(`Expected 1 fetch, got ${fetches.length}`);
+  pass("Verified keyset cached");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Submit refuses unverified keys
+  // ═════════════════════════════════════════════════════════════════════════
+
+  resetKeysetCache();
+  serve(signKeyset(KEYSET, toHex(OTHER_SIGNER.secretKey)));
+  const result = await submitSecureIntake(
+    { message: "hello" },
+    {
+      endpoint: "https://example.org/api/intake",
+      publicKeys: source,
+      canonicalize: (p) => ({ kind: "test", ...(p as object) }),
+      attemptHybrid: false,
+      storage: createMemoryStorage(),
+      rateLimit: false,
+    }
+  );
+  if (result.ok || result.code !== "keyset_invalid") fail(`Expected keyset_invalid, got ${JSON.stringify(result)}`);
+  if (fetches.some((url) => url.endsWith("/api/intake"))) fail("Envelope sent despite invalid keyset");
+  pass("Invalid keyset blocks submission (keyset_invalid)");
+
+  resetKeysetCache();
+  globalThis.fetch = (async () => new Response("{\"keyset\": {", { status: 200 })) as typeof fetch;
+  const malformed = await loadKeyset(source);
+  if (malformed.ok || malformed.reason !== "invalid") fail(`Malformed body: ${JSON.stringify(malformed)}`);
+  globalThis.fetch = (async () => {
+    throw new TypeError("Failed to fetch");
+  }) as typeof fetch;
+  const offline = await loadKeyset(source);
+  if (offline.ok || offline.reason !== "unavailable") fail(`Network error: ${JSON.stringify(offline)}`);
+  pass("Malformed keyset body is invalid (not retryable); network errors are unavailable");
+
+  globalThis.fetch = realFetch;
+  console.log("\n✅ Keyset tests passed\n");
+}
+
+main();
@@ -0,0 +1,145 @@
+/**
+ * Pure-JS ML-KEM hybrid suite tests
+ *
+ * Verifies:
+ * - mlKem: "always" encrypts with X25519 + ML-KEM-768/1024 (suite picked by
+ *   key length), pqcUsed true, and the opener decrypts it
+ * - mlKem: "fallback" keeps requireKyber submissions working when the
+ *   Kyber WASM module can't load
+ * - Wrong ML-KEM keys and tampered KEM ciphertexts fail to open
+ * - Multi-recipient wraps use ML-KEM too; validation rejects kyber512
+ *
+ * Usage: npx tsx test/mlkem.test.ts
+ */
+
+import { ml_kem768, ml_kem1024 } from "@noble/post-quantum/ml-kem.js";
+import { submitSecureIntake, validateIntakeConfig } from "../src/index.js";
+import { openIntakeEnvelope } from "../src/open.js";
+import { tryLoadHybrid } from "../src/hybrid-lazy.js";
+import { b64, nacl, toHex } from "../src/primitives.js";
+import type { OmniMultiRecipientV1 } from "../src/types.js";
+import { captureSubmissions, fail, intakeConfig, pass } from "./helpers.js";
+
+function orgKeys(kem: typeof ml_kem768) {
+  const x25519 = nacl.box.keyPair();
+  const mlKem = kem.keygen();
+  return {
+    publicKeys: { x25519PubHex: toHex(x25519.publicKey), kyberPubB64: b64(mlKem.publicKey) },
+    secretKeys: { x25519SecHex: toHex(x25519.secretKey), kyberSecB64: b64(mlKem.secretKey) },
+  };
+}
+
+async function main() {
+  const org = orgKeys(ml_kem768);
+  const config = intakeConfig(org.publicKeys, {
+    kyberParameterSet: "kyber768",
+    mlKem: "always",
+  });
+
+  const sent = captureSubmissions();
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Round trip
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const result = await submitSecureIntake({ message: "strict CSP portal" }, { ...config, requireKyber: true });
+  if (!result.ok) fail(`Submission failed: ${JSON.stringify(result)}`);
+  const wire = sent[0];
+  const inner = JSON.parse(wire.encrypted) as { suite: string; kyberKemCt: string };
+  if (!wire.pqcUsed || inner.suite !== "x25519+ml-kem-768" || !inner.kyberKemCt) {
+    fail(`Unexpected envelope: pqcUsed=${wire.pqcUsed} suite=${inner.suite}`);
+  }
+  const opened = await openIntakeEnvelope(wire, org.secretKeys);
+  if (opened.payload.message !== "strict CSP portal" || !opened.idMatches || !opened.pqcMatches || !opened.header) {
+    fail(`Open failed: ${JSON.stringify(opened)}`);
+  }
+  if (opened.header?.suite !== "x25519+ml-kem-768") fail(`Header suite ${opened.header?.suite}`);
+
+  const org1024 = orgKeys(ml_kem1024);
+  await submitSecureIntake({ message: "1024" }, { ...config, publicKeys: org1024.publicKeys, kyberParameterSet: "kyber1024" });
+  const wire1024 = sent[sent.length - 1];
+  if ((JSON.parse(wire1024.encrypted) as { suite: string }).suite !== "x25519+ml-kem-1024") fail("ML-KEM-1024 not selected");
+  if ((await openIntakeEnvelope(wire1024, org1024.secretKeys)).payload.message !== "1024") fail("ML-KEM-1024 open failed");
+  pass("X25519 + ML-KEM-768/1024 round trip, suite picked by key length, pqcUsed true");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Fallback when Kyber WASM is unavailable
+  // ═════════════════════════════════════════════════════════════════════════
+
+  if (await tryLoadHybrid()) {
+    console.log("- pqc-shared loads here; skipping the WASM-blocked fallback test");
+  } else {
+    let downgraded = false;
+    const strict = await submitSecureIntake({ message: "no wasm" }, {
+      ...config,
+      mlKem: "fallback",
+      requireKyber: true,
+      onDowngrade: () => {
+        downgraded = true;
+      },
+    });
+    const fallbackWire = sent[sent.length - 1];
+    if (!strict.ok || downgraded || !fallbackWire.pqcUsed) fail(`Fallback failed: ${JSON.stringify(strict)}`);
+    if ((JSON.parse(fallbackWire.encrypted) as { suite: string }).suite !== "x25519+ml-kem-768") fail("Fallback suite not ML-KEM");
+
+    const blocked = await submitSecureIntake({ message: "no wasm, no fallback" }, { ...config, mlKem: false, requireKyber: true });
+    if (blocked.ok || blocked.code !== "pqc_required_unavailable") fail(`Expected pqc_required_unavailable, got ${JSON.stringify(blocked)}`);
+    pass("mlKem: \"fallback\" satisfies requireKyber when Kyber WASM can't load");
+  }
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Wrong keys and tampering
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const expectThrow = async (label: string, fn: () => Promise<unknown>) => {
+    try {
+      await fn();
+    } catch {
+      return;
+    }
+    fail(label);
+  };
+  const other = orgKeys(ml_kem768);
+  await expectThrow("Wrong ML-KEM key opened the envelope", () =>
+    openIntakeEnvelope(wire, { ...org.secretKeys, kyberSecB64: other.secretKeys.kyberSecB64 })
+  );
+  await expectThrow("Wrong X25519 key opened the envelope", () =>
+    openIntakeEnvelope(wire, { ...org.secretKeys, x25519SecHex: other.secretKeys.x25519SecHex })
+  );
+  const ct = JSON.parse(wire.encrypted) as { kyberKemCt: string };
+  const forgedCt = b64(ml_kem768.encapsulate(ml_kem768.keygen().publicKey).cipherText);
+  await expectThrow("Tampered KEM ciphertext opened", () =>
+    openIntakeEnvelope({ ...wire, encrypted: JSON.stringify({ ...ct, kyberKemCt: forgedCt }) }, org.secretKeys)
+  );
+  pass("Either wrong secret key or a swapped KEM ciphertext fails to open");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Multi-recipient and validation
+  // ═════════════════════════════════════════════════════════════════════════
+
+  await submitSecureIntake({ message: "two teams" }, {
+    ...config,
+    publicKeys: {
+      recipients: [
+        { kid: "a", ...org.publicKeys },
+        { kid: "b", ...other.publicKeys },
+      ],
+    },
+  });
+  const multi = sent[sent.length - 1];
+  const multiInner = JSON.parse(multi.encrypted) as OmniMultiRecipientV1;
+  if (!multi.pqcUsed || multiInner.recipients.some((r) => r.suite !== "x25519+ml-kem-768")) {
+    fail("Recipient wraps not ML-KEM");
+  }
+  const byB = await openIntakeEnvelope(multi, other.secretKeys);
+  if (byB.kid !== "b" || !byB.pqcMatches) fail(`Recipient open failed: ${JSON.stringify(byB)}`);
+  pass("Multi-recipient content keys wrap with ML-KEM");
+
+  const kyber512 = validateIntakeConfig({ ...config, kyberParameterSet: "kyber512" });
+  if (!kyber512.issues.some((i) => i.code === "invalid_ml_kem")) fail("kyber512 + mlKem not flagged");
+  pass("validateIntakeConfig rejects ML-KEM with kyber512 keys");
+
+  console.log("\n✅ ML-KEM tests passed\n");
+}
+
+main();
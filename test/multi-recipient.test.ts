@@ -0,0 +1,125 @@
+/**
+ * Multi-recipient envelope tests
+ *
+ * Verifies:
+ * - One ciphertext, one content-key wrap per recipient (each with its kid)
+ * - Every recipient opens the submission with its own key (bare or keyring)
+ * - Non-recipients can't open it
+ * - Hybrid unavailable: all wraps downgrade to X25519 and pqcUsed stays truthful
+ *
+ * Usage: npx tsx test/multi-recipient.test.ts
+ */
+
+import { submitSecureIntake, validateIntakeConfig } from "../src/index.js";
+import { openIntakeEnvelope } from "../src/open.js";
+import { b64, nacl, toHex } from "../src/primitives.js";
+import type { OmniMultiRecipientV1 } from "../src/types.js";
+import { captureSubmissions, fail, intakeConfig, pass } from "./helpers.js";
+
+const COMPLIANCE = nacl.box.keyPair();
+const SALES = nacl.box.keyPair();
+const OUTSIDER = nacl.box.keyPair();
+
+async function main() {
+  const config = intakeConfig(
+    {
+      recipients: [
+        { kid: "compliance", x25519PubHex: toHex(COMPLIANCE.publicKey), kyberPubB64: "" },
+        { kid: "sales", x25519PubHex: toHex(SALES.publicKey), kyberPubB64: "" },
+      ],
+    },
+    { attemptHybrid: false }
+  );
+
+  const sent = captureSubmissions();
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Envelope shape
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const result = await submitSecureIntake({ message: "pilot for 200 seats" }, config);
+  if (!result.ok) fail(`Submission failed: ${JSON.stringify(result)}`);
+  const wire = sent[0];
+  const inner = JSON.parse(wire.encrypted) as OmniMultiRecipientV1;
+  if (inner.v !== "omnituum.multi-recipient.v1" || inner.recipients.map((r) => r.kid).join() !== "compliance,sales") {
+    fail(`Unexpected inner envelope: ${wire.encrypted}`);
+  }
+  if (wire.kid !== undefined) fail("Wire kid set on a multi-recipient envelope");
+  pass("Content encrypted once, key wrapped per recipient with kid");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Each recipient opens it
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const byCompliance = await openIntakeEnvelope(wire, { x25519SecHex: toHex(COMPLIANCE.secretKey) });
+  if (byCompliance.kid !== "compliance" || byCompliance.payload.message !== "pilot for 200 seats") {
+    fail(`Compliance open failed: ${JSON.stringify(byCompliance)}`);
+  }
+  if (!byCompliance.idMatches || !byCompliance.pqcMatches || byCompliance.recipients?.join() !== "compliance,sales") {
+    fail(`Consistency checks failed: ${JSON.stringify(byCompliance)}`);
+  }
+  const bySales = await openIntakeEnvelope(wire, {
+    keys: [{ kid: "sales", x25519SecHex: toHex(SALES.secretKey) }],
+  });
+  if (bySales.kid !== "sales" || bySales.plaintext !== byCompliance.plaintext) fail("Sales open failed");
+  pass("Each recipient opens the submission with its own key");
+
+  let threw = false;
+  try {
+    await openIntakeEnvelope(wire, { x25519SecHex: toHex(OUTSIDER.secretKey) });
+  } catch {
+    threw = true;
+  }
+  if (!threw) fail("Non-recipient opened the envelope");
+  pass("Non-recipient key is rejected");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Downgrade
+  // ═════════════════════════════════════════════════════════════════════════
+
+  let downgraded = false;
+  const kyberPubB64 = b64(nacl.randomBytes(1568));
+  const hybrid = await submitSecureIntake({ message: "hybrid attempt" }, {
+    ...config,
+    publicKeys: {
+      recipients: [
+        { kid: "compliance", x25519PubHex: toHex(COMPLIANCE.publicKey), kyberPubB64 },
+        { kid: "sales", x25519PubHex: toHex(SALES.publicKey), kyberPubB64 },
+      ],
+    },
+    attemptHybrid: true,
+    onDowngrade: () => {
+      downgraded = true;
+    },
+  });
+  if (!hybrid.ok) fail(`Hybrid attempt failed: ${JSON.stringify(hybrid)}`);
+  const hybridWire = sent[sent.length - 1];
+  const hybridInner = JSON.parse(hybridWire.encrypted) as OmniMultiRecipientV1;
+  if (!downgraded || hybridWire.pqcUsed || hybridInner.recipients.some((r) => r.suite !== "x25519")) {
+    fail("Expected every wrap to downgrade to X25519 with pqcUsed false");
+  }
+  pass("Hybrid unavailable: all wraps fall back to X25519, pqcUsed false");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Validation
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const duplicate = validateIntakeConfig({
+    ...config,
+    publicKeys: {
+      recipients: [
+        { kid: "a", x25519PubHex: toHex(COMPLIANCE.publicKey), kyberPubB64: "" },
+        { kid: "a", x25519PubHex: "abcd", kyberPubB64: "" },
+      ],
+    },
+  });
+  const codes = duplicate.issues.map((i) => `${i.path}:${i.code}`).join(" ");
+  if (codes !== "publicKeys.recipients[1].kid:invalid_recipient publicKeys.recipients[1].x25519PubHex:invalid_x25519_key") {
+    fail(`Unexpected validation issues: ${codes}`);
+  }
+  pass("validateIntakeConfig checks every recipient and duplicate kids");
+
+  console.log("\n✅ Multi-recipient tests passed\n");
+}
+
+main();
@@ -0,0 +1,197 @@
+/**
+ * Envelope opener tests (admin/offline decrypt side).
+ *
+ * Verifies:
+ * - X25519-only wire envelope → openIntakeEnvelope roundtrip, id recomputed
+ * - Tampered wire `id` / `pqcUsed` are reported as mismatches
+ * - Wrong secret key and malformed envelopes throw
+ * - Keyed request IDs (dedup key / salt) verify with the same key
+ *
+ * Usage: npx tsx test/open.test.ts
+ */
+
+import { encryptX25519Only } from "../src/submit.js";
+import { generateRequestId } from "../src/id.js";
+import { openIntakeEnvelope, deriveDedupKey } from "../src/open.js";
+import type { IntakeWireEnvelope } from "../src/types.js";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+let passed = 0;
+let failed = 0;
+
+function fail(msg: string): void {
+  console.error(`✘ ${msg}`);
+  failed++;
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+  passed++;
+}
+
+function assert(condition: boolean, msg: string): void {
+  if (condition) pass(msg);
+  else fail(msg);
+}
+
+async function assertRejects(fn: () => Promise<unknown>, msg: string): Promise<void> {
+  try {
+    await fn();
+    fail(`${msg} (did not throw)`);
+  } catch {
+    pass(msg);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Golden Test Identity (X25519 half, from pqc-shared/tests/golden/identity.json)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const GOLDEN_X25519_PUB_HEX = "0cb7663e9db84e11150aaef7653bcb98faff8f9b5cdda4c944ea5d02ff792f68";
+const GOLDEN_X25519_SEC_HEX = "c927676ce50feedd30533d0ba9948741e9fdc3cdbaa1dca15c430f440625561a";
+
+const PAYLOAD = { kind: "test", email: "test@example.com", message: "opener roundtrip" };
+const PLAINTEXT_BYTES = new TextEncoder().encode(JSON.stringify(PAYLOAD));
+const PAYLOAD_ID = generateRequestId(PAYLOAD);
+
+function buildWire(
+  encrypted: unknown,
+  overrides: Partial<IntakeWireEnvelope> = {}
+): string {
+  return JSON.stringify({
+    v: "loggie.intake.v1",
+    id: PAYLOAD_ID,
+    pqcUsed: false,
+    encrypted: JSON.stringify(encrypted),
+    ...overrides,
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// X25519-only roundtrip
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function testX25519Roundtrip(): Promise<void> {
+  console.log("\n── X25519-only wire envelope → openIntakeEnvelope ──");
+
+  const encrypted = await encryptX25519Only(PLAINTEXT_BYTES, GOLDEN_X25519_PUB_HEX);
+  const opened = await openIntakeEnvelope(buildWire(encrypted), {
+    x25519SecHex: GOLDEN_X25519_SEC_HEX,
+  });
+
+  assert(opened.suite === "x25519", 'suite = "x25519"');
+  assert(opened.plaintext === JSON.stringify(PAYLOAD), "plaintext matches");
+  assert(opened.payload.email === PAYLOAD.email, "payload parsed");
+  assert(opened.computedId === PAYLOAD_ID, "computedId matches generateRequestId");
+  assert(opened.idMatches, "idMatches = true");
+  assert(opened.pqcMatches, "pqcMatches = true (pqcUsed:false, x25519 suite)");
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Tampered wire fields
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function testTamperedWireFields(): Promise<void> {
+  console.log("\n── Tampered wire fields ──");
+
+  const encrypted = await encryptX25519Only(PLAINTEXT_BYTES, GOLDEN_X25519_PUB_HEX);
+  const secretKeys = { x25519SecHex: GOLDEN_X25519_SEC_HEX };
+
+  const swappedId = await openIntakeEnvelope(
+    buildWire(encrypted, { id: "0".repeat(64) }),
+    secretKeys
+  );
+  assert(!swappedId.idMatches, "Swapped id → idMatches = false");
+
+  const flippedPqc = await openIntakeEnvelope(
+    buildWire(encrypted, { pqcUsed: true }),
+    secretKeys
+  );
+  assert(!flippedPqc.pqcMatches, "Flipped pqcUsed → pqcMatches = false");
+
+  await assertRejects(
+    () =>
+      openIntakeEnvelope(buildWire(encrypted), {
+        x25519SecHex: "11".repeat(32),
+      }),
+    "Wrong X25519 secret key throws"
+  );
+
+  await assertRejects(
+    () => openIntakeEnvelope("{not json", secretKeys),
+    "Non-JSON wire body throws"
+  );
+
+  await assertRejects(
+    () => openIntakeEnvelope(buildWire(encrypted, { id: "ABC" }), secretKeys),
+    "Malformed id throws"
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Keyed request IDs
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function testKeyedRequestIds(): Promise<void> {
+  console.log("\n── Keyed request IDs ──");
+
+  const dedupKeyHex = deriveDedupKey({ x25519SecHex: GOLDEN_X25519_SEC_HEX });
+  assert(/^[0-9a-f]{64}$/.test(dedupKeyHex), "deriveDedupKey → 64-char hex");
+  assert(
+    dedupKeyHex === deriveDedupKey({ x25519SecHex: GOLDEN_X25519_SEC_HEX }),
+    "deriveDedupKey is deterministic"
+  );
+
+  const requestIdKey = { dedupKeyHex };
+  const keyedId = generateRequestId(PAYLOAD, { requestIdKey });
+  assert(keyedId !== PAYLOAD_ID, "Keyed id differs from unkeyed id");
+  assert(keyedId === generateRequestId(PAYLOAD, { requestIdKey }), "Keyed id is deterministic (idempotency)");
+
+  const saltedId = generateRequestId(PAYLOAD, { requestIdKey: { salt: "deployment-a" } });
+  assert(
+    saltedId !== generateRequestId(PAYLOAD, { requestIdKey: { salt: "deployment-b" } }),
+    "Different salts give different ids"
+  );
+
+  const encrypted = await encryptX25519Only(PLAINTEXT_BYTES, GOLDEN_X25519_PUB_HEX);
+  const secretKeys = { x25519SecHex: GOLDEN_X25519_SEC_HEX };
+  const wire = buildWire(encrypted, { id: keyedId });
+
+  const withKey = await openIntakeEnvelope(wire, secretKeys, { requestIdKey });
+  assert(withKey.idMatches, "Opener with requestIdKey → idMatches = true");
+
+  const withoutKey = await openIntakeEnvelope(wire, secretKeys);
+  assert(!withoutKey.idMatches, "Opener without requestIdKey → idMatches = false");
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Run all tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function main() {
+  console.log("Envelope opener tests");
+  console.log("=====================");
+
+  try {
+    await testX25519Roundtrip();
+    await testTamperedWireFields();
+    await testKeyedRequestIds();
+  } catch (err) {
+    console.error("\nFatal error:", err);
+    process.exit(1);
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    console.error("\n✘ TESTS FAILED\n");
+    process.exit(1);
+  }
+
+  console.log("\n✅ All envelope opener tests passed\n");
+}
+
+main();
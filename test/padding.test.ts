@@ -0,0 +1,103 @@
+/**
+ * Plaintext padding tests
+ *
+ * Verifies:
+ * - Padded lengths for bucket / pow2 / fixed policies
+ * - Unpadding is unambiguous (plaintext ending in marker/zero bytes survives)
+ * - Different-length payloads produce equal-length envelopes; opener still verifies the id
+ * - Size guards count padded bytes; validateIntakeConfig flags unusable policies
+ *
+ * Usage: npx tsx test/padding.test.ts
+ */
+
+import { submitSecureIntake, validateIntakeConfig } from "../src/index.js";
+import { openIntakeEnvelope } from "../src/open.js";
+import { paddedLength, padPlaintext, unpadPlaintext } from "../src/padding.js";
+import { captureSubmissions, fail, intakeConfig, orgKeys, pass } from "./helpers.js";
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Padded lengths
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const cases: Array<[number, Parameters<typeof paddedLength>[1], number | null]> = [
+    [10, { mode: "bucket" }, 512],
+    [511, { mode: "bucket" }, 512],
+    [512, { mode: "bucket" }, 2048],
+    [40000, { mode: "bucket" }, 65536],
+    [100, { mode: "bucket", buckets: [1000, 100] }, 1000],
+    [10, { mode: "pow2" }, 256],
+    [300, { mode: "pow2" }, 512],
+    [10, { mode: "pow2", minBytes: 16 }, 16],
+    [4095, { mode: "fixed", size: 4096 }, 4096],
+    [4096, { mode: "fixed", size: 4096 }, null],
+  ];
+  for (const [length, policy, expected] of cases) {
+    const actual = paddedLength(length, policy);
+    if (actual !== expected) fail(`${length} bytes under ${JSON.stringify(policy)}: ${actual} (expected ${expected})`);
+  }
+  pass("Padded lengths for bucket / pow2 / fixed");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Unpadding
+  // ═════════════════════════════════════════════════════════════════════════
+
+  for (const text of ['{"a":1}', "ends in marker\u0001", "ends in zero\u0000", ""]) {
+    const padded = padPlaintext(new TextEncoder().encode(text), { mode: "pow2", minBytes: 64 })!;
+    if (padded.length !== 64) fail(`Unexpected padded length ${padded.length}`);
+    if (unpadPlaintext(new TextDecoder().decode(padded)) !== text) fail(`Roundtrip failed for ${JSON.stringify(text)}`);
+  }
+  if (unpadPlaintext('{"a":1}') !== '{"a":1}') fail("Unpadded plaintext altered");
+  let threw = false;
+  try {
+    unpadPlaintext('{"a":1}\u0000\u0000');
+  } catch {
+    threw = true;
+  }
+  if (!threw) fail("Padding without marker accepted");
+  pass("Unpadding is unambiguous and leaves unpadded plaintext alone");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Submission
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const org = orgKeys();
+  const config = intakeConfig(org.publicKeys, { attemptHybrid: false, padding: { mode: "bucket" } });
+
+  const sent = captureSubmissions();
+
+  for (const message of ["", "a much longer free-text answer ".repeat(10)]) {
+    const result = await submitSecureIntake({ system: message }, config);
+    if (!result.ok) fail(`Submission failed: ${JSON.stringify(result)}`);
+  }
+  const ciphertextLengths = sent.map((e) => (JSON.parse(e.encrypted) as { ciphertext: string }).ciphertext.length);
+  if (ciphertextLengths[0] !== ciphertextLengths[1]) fail(`Ciphertext lengths differ: ${ciphertextLengths}`);
+  for (const envelope of sent) {
+    const opened = await openIntakeEnvelope(envelope, org.secretKeys);
+    if (!opened.idMatches || opened.plaintext.endsWith("\u0000")) fail("Padded envelope did not open cleanly");
+  }
+  pass("Different-length payloads encrypt to the same length; opener strips padding");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Size guards and validation
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const fixed = await submitSecureIntake({ system: "x".repeat(100) }, { ...config, padding: { mode: "fixed", size: 64 } });
+  if (fixed.ok || fixed.code !== "plaintext_too_large" || fixed.limit !== 64) {
+    fail(`Expected plaintext_too_large for fixed padding, got ${JSON.stringify(fixed)}`);
+  }
+  const padded = await submitSecureIntake({ system: "x".repeat(600) }, { ...config, maxPlaintextBytes: 1024 });
+  if (padded.ok || padded.code !== "plaintext_too_large" || padded.size !== 2048) {
+    fail(`Size guard did not count padded bytes: ${JSON.stringify(padded)}`);
+  }
+  pass("Size guards count padded bytes");
+
+  const invalid = validateIntakeConfig({ ...config, padding: { mode: "fixed", size: 64 * 1024 } });
+  if (invalid.issues[0]?.code !== "invalid_padding") fail(`Oversized padding not flagged: ${JSON.stringify(invalid.issues)}`);
+  if (!validateIntakeConfig(config).valid) fail("Default bucket policy flagged");
+  pass("validateIntakeConfig flags padding larger than maxPlaintextBytes");
+
+  console.log("\n✅ Padding tests passed\n");
+}
+
+main();
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for pending-submission tracking
+ *
+ * Verifies:
+ * - Concurrent submissions keep separate pending entries (no overwrite)
+ * - Attempts / lastError bookkeeping
+ * - TTL pruning and legacy single-slot migration
+ *
+ * Usage: npx tsx test/pending.test.ts
+ */
+
+import {
+  createMemoryStorage,
+  listPendingSubmissions,
+  getPendingSubmission,
+} from "../src/index.js";
+import {
+  markPendingAttempt,
+  setPendingError,
+  clearPendingSubmission,
+} from "../src/pending.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+const ID_A = "a".repeat(64);
+const ID_B = "b".repeat(64);
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Concurrent submissions on the same storage key
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const store = { storage: createMemoryStorage() };
+
+  await Promise.all([markPendingAttempt(ID_A, store), markPendingAttempt(ID_B, store)]);
+
+  const both = await listPendingSubmissions(store);
+  if (both.length !== 2) fail(`Expected 2 pending, got ${JSON.stringify(both)}`);
+  pass("Concurrent submissions keep separate entries");
+
+  await markPendingAttempt(ID_A, store);
+  await setPendingError(ID_A, "network_error", store);
+  const a = await getPendingSubmission(ID_A, store);
+  if (a?.attempts !== 2 || a.lastError !== "network_error") {
+    fail(`Unexpected entry: ${JSON.stringify(a)}`);
+  }
+  pass("attempts and lastError recorded");
+
+  await clearPendingSubmission(ID_A, store);
+  if (await getPendingSubmission(ID_A, store)) fail("A not cleared");
+  if (!(await getPendingSubmission(ID_B, store))) fail("Clearing A removed B");
+  pass("Clearing one entry leaves the other pending");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: TTL pruning
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const storage = createMemoryStorage();
+  storage.set(
+    "loggie.intake.pending",
+    JSON.stringify({
+      [ID_A]: { ts: Date.now() - 10 * 60 * 1000, attempts: 1 },
+      [ID_B]: { ts: Date.now(), attempts: 1 },
+    })
+  );
+  const live = await listPendingSubmissions({ storage });
+  if (live.length !== 1 || live[0].id !== ID_B) {
+    fail(`TTL pruning failed: ${JSON.stringify(live)}`);
+  }
+  pass("Expired entries pruned (default 5 min TTL)");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Legacy single-slot format
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const legacy = createMemoryStorage();
+  legacy.set("loggie.intake.pending", JSON.stringify({ id: ID_A, ts: Date.now() }));
+  if (!(await getPendingSubmission(ID_A, { storage: legacy }))) {
+    fail("Legacy { id, ts } record not recognized");
+  }
+  pass("Legacy { id, ts } record still recognized as pending");
+
+  console.log("\n✅ Pending submission tests passed\n");
+}
+
+main();
@@ -0,0 +1,163 @@
+/**
+ * Proof-of-work tests
+ *
+ * Verifies:
+ * - solveProofOfWork finds a nonce (in-thread fallback under Node) and reports progress
+ * - A worker that never reports is terminated after the timeout and the
+ *   search runs in-thread
+ * - verifyProofOfWork rejects a tampered id, nonce, challenge, or low difficulty,
+ *   and requires the server-issued challenge
+ * - submitSecureIntake attaches a verifiable token fetched from a challenge endpoint
+ * - Challenge endpoint failure surfaces as challenge_unavailable
+ *
+ * Usage: npx tsx test/pow.test.ts
+ */
+
+import {
+  submitSecureIntake,
+  solveProofOfWork,
+  verifyProofOfWork,
+  createMemoryStorage,
+} from "../src/index.js";
+import { POW_CHUNK_SIZE } from "../src/pow.js";
+import { nacl, toHex } from "../src/primitives.js";
+import type { IntakeConfig, IntakeWireEnvelope, ProofOfWorkProgress } from "../src/types.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+const ID = "ab".repeat(32);
+const DIFFICULTY = 14;
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Solve and verify
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const progress: ProofOfWorkProgress[] = [];
+  const token = await solveProofOfWork(ID, "challenge-0", {
+    difficulty: DIFFICULTY,
+    onProgress: (p) => progress.push(p),
+  });
+  if (!/^[0-9a-f]{16}$/.test(token.nonce)) fail(`Bad nonce format: ${token.nonce}`);
+  if (!verifyProofOfWork({ id: ID, pow: token }, { challenge: "challenge-0", difficulty: DIFFICULTY })) {
+    fail("Solved token did not verify");
+  }
+  // One report per exhausted chunk
+  const chunks = Math.floor(Number(BigInt("0x" + token.nonce)) / POW_CHUNK_SIZE);
+  if (progress.length !== chunks) fail(`Expected ${chunks} progress reports, got ${progress.length}`);
+  if (progress.some((p) => p.expectedHashes !== 2 ** DIFFICULTY)) fail("Wrong expectedHashes in progress");
+  pass(`Solved difficulty ${DIFFICULTY} (nonce ${token.nonce}, ${progress.length} progress reports)`);
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Tampering
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const expected = { challenge: "challenge-0", difficulty: DIFFICULTY };
+  if (verifyProofOfWork({ id: "cd".repeat(32), pow: token }, expected)) fail("Token verified for another id");
+  if (verifyProofOfWork({ id: ID, pow: { ...token, challenge: "challenge-2" } }, expected)) {
+    fail("Token verified with another challenge");
+  }
+  const selfIssued = await solveProofOfWork(ID, "client-picked", { difficulty: DIFFICULTY });
+  if (verifyProofOfWork({ id: ID, pow: selfIssued }, expected)) fail("Self-issued challenge verified");
+  if (verifyProofOfWork({ id: ID, pow: selfIssued }, { difficulty: DIFFICULTY } as typeof expected)) {
+    fail("Token verified without an expected challenge");
+  }
+  if (verifyProofOfWork({ id: ID, pow: token }, { challenge: "challenge-2", difficulty: DIFFICULTY })) {
+    fail("Token verified against unexpected challenge");
+  }
+  const bumped = (BigInt("0x" + token.nonce) + 1n).toString(16).padStart(16, "0");
+  if (verifyProofOfWork({ id: ID, pow: { ...token, nonce: bumped } }, expected)) {
+    fail("Token verified with altered nonce");
+  }
+  if (verifyProofOfWork({ id: ID, pow: { ...token, difficulty: 4 } }, expected)) {
+    fail("Token accepted below the required difficulty");
+  }
+  if (verifyProofOfWork({ id: ID }, expected)) fail("Missing token verified");
+  pass("Tampered id / challenge / nonce / difficulty and self-issued challenges rejected");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Stalled worker
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const workers: Array<{ terminated: boolean }> = [];
+  (globalThis as { Worker?: unknown }).Worker = class {
+    onmessage = null;
+    onerror = null;
+    record = { terminated: false };
+    constructor() {
+      workers.push(this.record);
+    }
+    postMessage() {
+      // Script never loads: no progress, no error
+    }
+    terminate() {
+      this.record.terminated = true;
+    }
+  };
+  // Shorten the worker timeout instead of waiting it out
+  const timeout = globalThis.setTimeout;
+  const delays: number[] = [];
+  globalThis.setTimeout = ((fn: () => void, ms?: number) => {
+    delays.push(ms ?? 0);
+    return timeout(fn, Math.min(ms ?? 0, 10));
+  }) as typeof setTimeout;
+  const stalled = await solveProofOfWork(ID, "challenge-0", { difficulty: DIFFICULTY });
+  globalThis.setTimeout = timeout;
+  delete (globalThis as { Worker?: unknown }).Worker;
+  if (workers.length !== 1 || !workers[0].terminated) fail("Stalled worker not terminated");
+  if (!delays.some((ms) => ms >= 10_000)) fail(`Worker timeout not armed: ${delays}`);
+  if (stalled.nonce !== token.nonce) fail("In-thread fallback found a different nonce");
+  pass("A worker that never reports is terminated and the search runs in-thread");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Submission with a challenge endpoint
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const org = nacl.box.keyPair();
+  const config: IntakeConfig = {
+    endpoint: "https://example.org/api/intake",
+    publicKeys: { x25519PubHex: toHex(org.publicKey), kyberPubB64: "" },
+    canonicalize: (p) => p as Record<string, unknown>,
+    attemptHybrid: false,
+    storage: createMemoryStorage(),
+    rateLimit: false,
+    proofOfWork: { challengeUrl: "https://example.org/api/challenge" },
+  };
+
+  let challengeUp = true;
+  const sent: IntakeWireEnvelope[] = [];
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (String(input).endsWith("/challenge")) {
+      if (!challengeUp) return new Response("unavailable", { status: 503 });
+      return new Response(JSON.stringify({ challenge: "server-xyz", difficulty: 8 }), { status: 200 });
+    }
+    const envelope = JSON.parse(String(init?.body)) as IntakeWireEnvelope;
+    sent.push(envelope);
+    return new Response(JSON.stringify({ ok: true, id: envelope.id, status: "created" }), { status: 201 });
+  }) as typeof fetch;
+
+  const result = await submitSecureIntake({ message: "hello" }, config);
+  if (!result.ok) fail(`Submission failed: ${JSON.stringify(result)}`);
+  const envelope = sent[0];
+  if (!envelope.pow || envelope.pow.challenge !== "server-xyz") fail(`Envelope missing pow: ${JSON.stringify(envelope)}`);
+  if (!verifyProofOfWork(envelope, { challenge: "server-xyz", difficulty: 8 })) fail("Submitted token did not verify");
+  pass("Submission attaches a token for the endpoint's challenge");
+
+  challengeUp = false;
+  const down = await submitSecureIntake({ message: "hello again" }, config);
+  if (down.ok || down.code !== "challenge_unavailable" || !down.retryable) {
+    fail(`Expected retryable challenge_unavailable, got ${JSON.stringify(down)}`);
+  }
+  pass("Challenge endpoint failure returns challenge_unavailable");
+
+  console.log("\n✅ Proof-of-work tests passed\n");
+}
+
+main();
@@ -0,0 +1,161 @@
+/**
+ * Offline queue tests (fake-indexeddb)
+ *
+ * Verifies:
+ * - A network_error submission is queued (encrypted) and stays pending
+ * - Flush outcomes: delivered, rejected (4xx), deferred (5xx, stays queued)
+ *   and expired; delivered/rejected clear the pending entry
+ * - Envelopes queued on an earlier page load are flushed by the next
+ *   submission, and by armOfflineQueue() on `online`, with the configured
+ *   timeoutMs / retry
+ *
+ * Usage: npx tsx test/queue.test.ts
+ */
+
+import "fake-indexeddb/auto";
+import {
+  submitSecureIntake,
+  createMemoryStorage,
+  getPendingSubmission,
+  flushQueuedSubmissions,
+  armOfflineQueue,
+} from "../src/index.js";
+import { enqueueSubmission } from "../src/queue.js";
+import { generateRequestId } from "../src/id.js";
+import { nacl, toHex, b64 } from "../src/primitives.js";
+import type { IntakeConfig, QueuedSubmissionOutcome } from "../src/types.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+type Reply = number | "network";
+
+let replies: Reply[] = [];
+let fetches = 0;
+globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+  fetches++;
+  const reply = replies.shift() ?? 201;
+  if (reply === "network") throw new TypeError("Failed to fetch");
+  const id = (JSON.parse(String(init?.body)) as { id: string }).id;
+  return new Response(JSON.stringify(reply < 300 ? { ok: true, id, status: "created" } : { error: "nope" }), {
+    status: reply,
+  });
+}) as typeof fetch;
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+async function main() {
+  const org = nacl.box.keyPair();
+  const storage = createMemoryStorage();
+  const config: IntakeConfig = {
+    endpoint: "https://example.org/api/intake",
+    publicKeys: { x25519PubHex: toHex(org.publicKey), kyberPubB64: b64(new Uint8Array(1568)) },
+    canonicalize: (p) => p as Record<string, unknown>,
+    attemptHybrid: false,
+    storage,
+    rateLimit: false,
+    offlineQueue: { dbName: "queue-outcomes", autoFlush: false },
+  };
+  const dbName = "queue-outcomes";
+
+  const queueOne = async (message: string) => {
+    replies = ["network"];
+    const result = await submitSecureIntake({ message }, config);
+    if (result.ok || result.code !== "network_error" || !result.queued) {
+      fail(`Expected a queued network_error: ${JSON.stringify(result)}`);
+    }
+    return generateRequestId({ message });
+  };
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Enqueue on network_error
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const delivered = await queueOne("offline");
+  const pending = await getPendingSubmission(delivered, { storage });
+  if (!pending || pending.lastError !== "network_error") fail(`Pending not kept: ${JSON.stringify(pending)}`);
+  pass("network_error queues the envelope and keeps it pending");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Outcomes
+  // ═════════════════════════════════════════════════════════════════════════
+
+  replies = [201];
+  let outcomes = await flushQueuedSubmissions({ dbName, storage });
+  if (outcomes.length !== 1 || outcomes[0].status !== "delivered") fail(`Delivered: ${JSON.stringify(outcomes)}`);
+  if (await getPendingSubmission(delivered, { storage })) fail("Delivered envelope still pending");
+  if ((await flushQueuedSubmissions({ dbName, storage })).length !== 0) fail("Delivered envelope still queued");
+
+  const rejected = await queueOne("rejected");
+  replies = [400];
+  outcomes = await flushQueuedSubmissions({ dbName, storage });
+  if (outcomes[0]?.status !== "rejected" || outcomes[0].id !== rejected) fail(`Rejected: ${JSON.stringify(outcomes)}`);
+  if (await getPendingSubmission(rejected, { storage })) fail("Rejected envelope still pending");
+
+  const deferred = await queueOne("deferred");
+  replies = [503];
+  outcomes = await flushQueuedSubmissions({ dbName, storage });
+  if (outcomes[0]?.status !== "deferred") fail(`Deferred: ${JSON.stringify(outcomes)}`);
+  if ((await getPendingSubmission(deferred, { storage }))?.lastError !== "server_error") {
+    fail("Deferred envelope's pending error not updated");
+  }
+
+  outcomes = await flushQueuedSubmissions({ dbName, storage, maxAgeMs: -1 });
+  if (outcomes[0]?.status !== "expired" || outcomes[0].result !== undefined) fail(`Expired: ${JSON.stringify(outcomes)}`);
+  if ((await flushQueuedSubmissions({ dbName, storage })).length !== 0) fail("Expired envelope still queued");
+  pass("Flush outcomes: delivered, rejected and expired are removed; deferred stays queued");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Leftovers from an earlier page load
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const envelopeJson = JSON.stringify({ v: "loggie.intake.v1", id: "c".repeat(64), encrypted: "{}" });
+  await enqueueSubmission(
+    { id: "c".repeat(64), endpoint: config.endpoint, envelopeJson, storageKey: "loggie.intake.pending" },
+    { dbName: "queue-startup" }
+  );
+  const startup: QueuedSubmissionOutcome[] = [];
+  replies = [503, 201, 201];
+  fetches = 0;
+  await submitSecureIntake({ message: "next page" }, {
+    ...config,
+    offlineQueue: { dbName: "queue-startup", onOutcome: (o) => startup.push(o) },
+  }, { retry: { maxAttempts: 2, baseDelayMs: 1 } });
+  await tick();
+  if (startup.length !== 1 || startup[0].status !== "delivered" || startup[0].id !== "c".repeat(64)) {
+    fail(`Startup flush: ${JSON.stringify(startup)}`);
+  }
+  if (fetches !== 3) fail(`Expected the submission's retry policy on the startup flush (${fetches} fetches)`);
+  pass("The next submission flushes envelopes queued earlier, with its retry policy");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: armOfflineQueue and `online`
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const window = new EventTarget();
+  (globalThis as { window?: unknown }).window = window;
+  const armed: QueuedSubmissionOutcome[] = [];
+  const initial = await armOfflineQueue({ dbName: "queue-online", onOutcome: (o) => armed.push(o) }, storage);
+  if (initial.length !== 0) fail("Empty queue flushed something");
+  if ((await armOfflineQueue({ dbName: "queue-online" })).length !== 0) fail("Second arm flushed again");
+
+  await enqueueSubmission(
+    { id: "d".repeat(64), endpoint: config.endpoint, envelopeJson, storageKey: "loggie.intake.pending" },
+    { dbName: "queue-online" }
+  );
+  replies = [201];
+  window.dispatchEvent(new Event("online"));
+  await tick();
+  if (armed.length !== 1 || armed[0].status !== "delivered") fail(`online flush: ${JSON.stringify(armed)}`);
+  pass("armOfflineQueue flushes at startup and on every online event (armed once per database)");
+
+  console.log("\n✅ Offline queue tests passed\n");
+}
+
+main();
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for client-side rate limiting
+ *
+ * Verifies:
+ * - Token bucket per key (separate budgets, retry bypass)
+ * - retryAfterMs countdown when exhausted
+ * - Server Retry-After blocks the bucket (retries included)
+ * - Persisted state survives an in-memory reset
+ * - Submissions that fail before sending (size guard, bad key) don't use
+ *   up a token; sent ones do
+ *
+ * Usage: npx tsx test/ratelimit.test.ts
+ */
+
+import { createMemoryStorage, resetRateLimit, submitSecureIntake } from "../src/index.js";
+import { acquireRateLimit, applyServerRetryAfter } from "../src/ratelimit.js";
+import { nacl, toHex } from "../src/primitives.js";
+import type { IntakeConfig } from "../src/types.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+const LIMIT = { max: 2, windowMs: 60_000 };
+
+async function main() {
+  const storage = createMemoryStorage();
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Token bucket per key
+  // ═════════════════════════════════════════════════════════════════════════
+
+  for (let i = 0; i < 2; i++) {
+    if (!(await acquireRateLimit(LIMIT, "/a", false, storage)).allowed) {
+      fail(`Submission ${i + 1} should be allowed`);
+    }
+  }
+  const exhausted = await acquireRateLimit(LIMIT, "/a", false, storage);
+  if (exhausted.allowed) fail("Third submission should be limited");
+  if (exhausted.retryAfterMs <= 0 || exhausted.retryAfterMs > 30_000) {
+    fail(`Unexpected retryAfterMs: ${exhausted.retryAfterMs}`);
+  }
+  pass(`Bucket exhausted after max submissions (retry in ${exhausted.retryAfterMs}ms)`);
+
+  if (!(await acquireRateLimit(LIMIT, "/a", true, storage)).allowed) {
+    fail("Retry should bypass the token check");
+  }
+  if (!(await acquireRateLimit(LIMIT, "/b", false, storage)).allowed) {
+    fail("Other endpoint should have its own bucket");
+  }
+  pass("Retries bypass tokens; endpoints have separate buckets");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Server Retry-After
+  // ═════════════════════════════════════════════════════════════════════════
+
+  await applyServerRetryAfter(LIMIT, "/b", 5_000, storage);
+  const blocked = await acquireRateLimit(LIMIT, "/b", true, storage);
+  if (blocked.allowed || blocked.retryAfterMs > 5_000) {
+    fail(`Server block not applied: ${JSON.stringify(blocked)}`);
+  }
+  pass("Server Retry-After blocks the bucket, retries included");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Persistence
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const persisted = { ...LIMIT, key: "form", persist: true };
+  await acquireRateLimit(persisted, "/c", false, storage);
+  await acquireRateLimit(persisted, "/c", false, storage);
+  resetRateLimit();
+  if ((await acquireRateLimit(persisted, "/c", false, storage)).allowed) {
+    fail("Persisted bucket should survive an in-memory reset");
+  }
+  await resetRateLimit({ storage, key: "form" });
+  if (!(await acquireRateLimit(persisted, "/c", false, storage)).allowed) {
+    fail("resetRateLimit should clear the persisted bucket");
+  }
+  pass("Persisted bucket survives reload; resetRateLimit clears it");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Local failures keep the token
+  // ═════════════════════════════════════════════════════════════════════════
+
+  let sent = 0;
+  globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    sent++;
+    const id = (JSON.parse(String(init?.body)) as { id: string }).id;
+    return new Response(JSON.stringify({ ok: true, id, status: "created" }), { status: 201 });
+  }) as typeof fetch;
+  const config: IntakeConfig = {
+    endpoint: "https://example.org/api/refund",
+    publicKeys: { x25519PubHex: toHex(nacl.box.keyPair().publicKey), kyberPubB64: "" },
+    canonicalize: (p) => p as Record<string, unknown>,
+    attemptHybrid: false,
+    storage,
+    rateLimit: { max: 1, windowMs: 60_000 },
+  };
+
+  const tooLarge = await submitSecureIntake({ message: "x".repeat(200) }, { ...config, maxPlaintextBytes: 64 });
+  const badKey = await submitSecureIntake(
+    { message: "bad key" },
+    { ...config, publicKeys: { x25519PubHex: "00", kyberPubB64: "" } }
+  );
+  if (tooLarge.ok || tooLarge.code !== "plaintext_too_large" || badKey.ok || badKey.code !== "public_key_invalid") {
+    fail(`Expected local failures: ${JSON.stringify([tooLarge, badKey])}`);
+  }
+  const delivered = await submitSecureIntake({ message: "first real" }, config);
+  if (!delivered.ok || sent !== 1) fail(`Token used up by local failures: ${JSON.stringify(delivered)}`);
+  const limited = await submitSecureIntake({ message: "second real" }, config);
+  if (limited.ok || limited.code !== "rate_limited" || sent !== 1) fail(`Sent submission kept its token: ${JSON.stringify(limited)}`);
+  pass("Local failures refund the token; sent submissions keep it spent");
+
+  console.log("\n✅ Rate limit tests passed\n");
+}
+
+main();
@@ -0,0 +1,218 @@
+/**
+ * Unit tests for declarative intake schemas
+ *
+ * Verifies:
+ * - Schema canonicalize matches the hand-written pilot-access canonicalize (same ID)
+ * - Per-field validation errors
+ * - maxPlaintextBytes bound covers worst-case payloads
+ * - toIntakeConfig canonicalize refuses invalid data
+ * - toIntakeConfig pads the bound under a padding policy
+ * - toIntakeConfig widens the bound for reserved fields ($id, $bot, $attachments)
+ *
+ * Usage: npx tsx test/schema.test.ts
+ */
+
+import { defineIntakeSchema, field, generateRequestId } from "../src/index.js";
+import { canonicalizePilotAccessPayload } from "../src/presets/pilot-access.js";
+import type { RequestFormData } from "../src/presets/pilot-access.js";
+import { paddedLength } from "../src/padding.js";
+import { randomIdOverheadBytes, RANDOM_ID_FIELD } from "../src/id.js";
+import { botScoreOverheadBytes, scoreBotSignals, BOT_SCORE_FIELD } from "../src/botsignals.js";
+import { attachmentsOverheadBytes, placeholderAttachmentRef, ATTACHMENTS_FIELD } from "../src/attachments.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: Schema reproduces the pilot-access preset
+// ═══════════════════════════════════════════════════════════════════════════
+
+const pilotSchema = defineIntakeSchema({
+  kind: "request_pilot_access",
+  fields: {
+    email: "email",
+    company: "string",
+    system: "multiline",
+    useCase: "string",
+    timeline: "string",
+    compliance: "stringSet",
+  },
+});
+
+const formData: RequestFormData = {
+  email: "  Test@Example.com ",
+  company: "Acme Corp ",
+  system: "Line one\r\nLine two",
+  useCase: "ai-audit",
+  timeline: "q2-2025",
+  compliance: ["soc2", "gdpr"],
+};
+
+const schemaId = generateRequestId(pilotSchema.canonicalize(formData));
+const presetId = generateRequestId(
+  canonicalizePilotAccessPayload(formData, "request_pilot_access")
+);
+if (schemaId !== presetId) {
+  fail(`Schema ID differs from preset ID:\n  schema: ${schemaId}\n  preset: ${presetId}`);
+}
+pass("Schema canonicalize → same ID as canonicalizePilotAccessPayload");
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: Per-field validation
+// ═══════════════════════════════════════════════════════════════════════════
+
+const contactSchema = defineIntakeSchema({
+  kind: "contact",
+  fields: {
+    email: field.email({ maxLength: 254 }),
+    tags: field.stringSet({ maxItems: 2, maxLength: 16, required: false }),
+    message: field.multiline({ maxLength: 20 }),
+    timeline: field.enum(["now", "later"]),
+  },
+});
+
+const valid = contactSchema.validate({
+  email: "a@example.com",
+  tags: ["x"],
+  message: "hello",
+  timeline: "now",
+});
+if (!valid.valid) fail(`Valid data rejected: ${JSON.stringify(valid.errors)}`);
+pass("Valid data accepted");
+
+const invalid = contactSchema.validate({
+  email: "not-an-email",
+  tags: ["a", "b", "c"],
+  message: "x".repeat(21),
+  timeline: "someday",
+});
+const expectedCodes = {
+  email: "invalid_email",
+  tags: "too_many_items",
+  message: "too_long",
+  timeline: "not_allowed",
+};
+for (const [name, code] of Object.entries(expectedCodes)) {
+  const error = invalid.errors[name as keyof typeof expectedCodes];
+  if (error?.code !== code) {
+    fail(`${name}: expected ${code}, got ${JSON.stringify(error)}`);
+  }
+  pass(`${name}: ${code}`);
+}
+
+const missing = contactSchema.validate({});
+if (missing.errors.email?.code !== "required" || missing.errors.tags) {
+  fail(`Required handling wrong: ${JSON.stringify(missing.errors)}`);
+}
+pass("Missing required field → required; optional stringSet → no error");
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: maxPlaintextBytes bound
+// ═══════════════════════════════════════════════════════════════════════════
+
+if (pilotSchema.maxPlaintextBytes !== undefined) {
+  fail("Unbounded fields should give maxPlaintextBytes = undefined");
+}
+pass("Unbounded schema → maxPlaintextBytes undefined");
+
+const bound = contactSchema.maxPlaintextBytes;
+if (bound === undefined) fail("Bounded schema has no maxPlaintextBytes");
+
+const worstCase = contactSchema.canonicalize({
+  email: "€".repeat(250) + "@a.b",
+  tags: ["\"".repeat(16), "€".repeat(16)],
+  message: "€".repeat(20),
+  timeline: "later",
+});
+const worstBytes = new TextEncoder().encode(JSON.stringify(worstCase)).length;
+if (worstBytes > bound) {
+  fail(`Worst-case payload ${worstBytes}B exceeds bound ${bound}B`);
+}
+pass(`Worst-case payload ${worstBytes}B within bound ${bound}B`);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test: toIntakeConfig
+// ═══════════════════════════════════════════════════════════════════════════
+
+const config = contactSchema.toIntakeConfig({
+  endpoint: "/api/intake",
+  publicKeys: { x25519PubHex: "", kyberPubB64: "" },
+});
+
+if (config.maxPlaintextBytes !== bound) fail("toIntakeConfig did not apply bound");
+pass("toIntakeConfig applies maxPlaintextBytes");
+
+const randomConfig = contactSchema.toIntakeConfig({
+  endpoint: "/api/intake",
+  publicKeys: { x25519PubHex: "", kyberPubB64: "" },
+  idStrategy: "random",
+});
+const withRandomId = { ...worstCase, [RANDOM_ID_FIELD]: "f".repeat(64) };
+if (
+  randomConfig.maxPlaintextBytes !== bound! + randomIdOverheadBytes() ||
+  new TextEncoder().encode(JSON.stringify(withRandomId)).length > randomConfig.maxPlaintextBytes
+) {
+  fail(`Random-id bound ${randomConfig.maxPlaintextBytes}B doesn't cover "${RANDOM_ID_FIELD}"`);
+}
+pass(`idStrategy "random" widens the bound by the "${RANDOM_ID_FIELD}" field`);
+
+const scoredConfig = contactSchema.toIntakeConfig({
+  endpoint: "/api/intake",
+  publicKeys: { x25519PubHex: "", kyberPubB64: "" },
+  botDetection: { includeScore: true },
+});
+const worstScore = scoreBotSignals({ honeypots: ["x"], elapsedMs: 0, keyEvents: 0, pointerEvents: 0 });
+const withScore = { ...worstCase, [BOT_SCORE_FIELD]: { score: 0.99, reasons: worstScore.reasons } };
+if (
+  scoredConfig.maxPlaintextBytes !== bound! + botScoreOverheadBytes() ||
+  new TextEncoder().encode(JSON.stringify(withScore)).length > scoredConfig.maxPlaintextBytes
+) {
+  fail(`Bot-score bound ${scoredConfig.maxPlaintextBytes}B doesn't cover "${BOT_SCORE_FIELD}"`);
+}
+pass(`botDetection.includeScore widens the bound by the "${BOT_SCORE_FIELD}" field`);
+
+const attachmentConfig = { endpoint: "/api/blobs", chunkSize: 1024, maxBytes: 8 * 1024, maxCount: 3 };
+const attachingConfig = contactSchema.toIntakeConfig({
+  endpoint: "/api/intake",
+  publicKeys: { x25519PubHex: "", kyberPubB64: "" },
+  attachments: attachmentConfig,
+});
+const file = new File([new Uint8Array(8 * 1024)], `${"n".repeat(200)}.pdf`, { type: "application/pdf" });
+const withRefs = {
+  ...worstCase,
+  [ATTACHMENTS_FIELD]: [file, file, file].map((f) => placeholderAttachmentRef(f, attachmentConfig)),
+};
+if (
+  attachingConfig.maxPlaintextBytes !== bound! + attachmentsOverheadBytes(attachmentConfig) ||
+  new TextEncoder().encode(JSON.stringify(withRefs)).length > attachingConfig.maxPlaintextBytes
+) {
+  fail(`Attachment bound ${attachingConfig.maxPlaintextBytes}B doesn't cover maxCount refs`);
+}
+pass(`attachments widen the bound by maxCount "${ATTACHMENTS_FIELD}" refs`);
+
+const paddedConfig = contactSchema.toIntakeConfig({
+  endpoint: "/api/intake",
+  publicKeys: { x25519PubHex: "", kyberPubB64: "" },
+  padding: { mode: "pow2" },
+});
+if (paddedConfig.maxPlaintextBytes !== paddedLength(bound!, { mode: "pow2" })) {
+  fail("toIntakeConfig did not pad the bound");
+}
+pass("toIntakeConfig pads the bound under a padding policy");
+
+let threw = false;
+try {
+  config.canonicalize({ email: "bad" });
+} catch {
+  threw = true;
+}
+if (!threw) fail("toIntakeConfig canonicalize accepted invalid data");
+pass("toIntakeConfig canonicalize throws on invalid data");
+
+console.log("\n✅ Schema tests passed\n");
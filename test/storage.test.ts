@@ -0,0 +1,126 @@
+/**
+ * Unit tests for pending-submission storage adapters
+ *
+ * Verifies:
+ * - sessionStorageAdapter / localStorageAdapter resolve Web Storage lazily
+ *   and write to the right store; they throw when it is missing
+ * - createMemoryStorage instances are independent
+ * - defaultStorage() falls back to a shared memory store when
+ *   sessionStorage throws on access (sandboxed iframe) or on write
+ *   (Safari private mode), and uses sessionStorage when it works
+ *
+ * Usage: npx tsx test/storage.test.ts
+ */
+
+import {
+  sessionStorageAdapter,
+  localStorageAdapter,
+  createMemoryStorage,
+} from "../src/index.js";
+import { defaultStorage } from "../src/storage.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+/** Map-backed Web Storage; `quota` makes setItem throw like Safari private mode */
+class FakeStorage {
+  items = new Map<string, string>();
+  constructor(private quota = false) {}
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    if (this.quota) throw new DOMException("quota exceeded", "QuotaExceededError");
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+function installStorage(name: "sessionStorage" | "localStorage", value: FakeStorage | "throw" | undefined) {
+  Object.defineProperty(globalThis, name, {
+    configurable: true,
+    get: () => {
+      if (value === "throw") throw new DOMException("denied", "SecurityError");
+      return value;
+    },
+  });
+}
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Web Storage adapters
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const session = sessionStorageAdapter();
+  const local = localStorageAdapter();
+
+  installStorage("sessionStorage", undefined);
+  try {
+    await session.get("k");
+    fail("Adapter read missing sessionStorage");
+  } catch {
+    // expected
+  }
+
+  const sessionStore = new FakeStorage();
+  const localStore = new FakeStorage();
+  installStorage("sessionStorage", sessionStore);
+  installStorage("localStorage", localStore);
+  await session.set("k", "session");
+  await local.set("k", "local");
+  if (sessionStore.items.get("k") !== "session" || localStore.items.get("k") !== "local") {
+    fail("Adapters wrote to the wrong store");
+  }
+  if ((await session.get("k")) !== "session" || (await local.get("k")) !== "local") fail("Adapter read mismatch");
+  await session.remove("k");
+  if ((await session.get("k")) !== null || (await local.get("k")) !== "local") fail("Remove hit the wrong store");
+  pass("Session/local adapters resolve lazily, use their own store, throw when missing");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Memory storage
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const a = createMemoryStorage();
+  const b = createMemoryStorage();
+  await a.set("k", "a");
+  if ((await a.get("k")) !== "a" || (await b.get("k")) !== null) fail("Memory stores share state");
+  await a.remove("k");
+  if ((await a.get("k")) !== null) fail("Memory remove failed");
+  pass("Memory storage instances are independent");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: defaultStorage fallback
+  // ═════════════════════════════════════════════════════════════════════════
+
+  installStorage("sessionStorage", "throw");
+  const sandboxed = defaultStorage();
+  await sandboxed.set("k", "memory");
+  if ((await sandboxed.get("k")) !== "memory") fail("Fallback store unusable");
+
+  installStorage("sessionStorage", new FakeStorage(true));
+  const privateMode = defaultStorage();
+  if (privateMode !== sandboxed || (await privateMode.get("k")) !== "memory") {
+    fail("Private-mode fallback is not the shared memory store");
+  }
+
+  const working = new FakeStorage();
+  installStorage("sessionStorage", working);
+  const preferred = defaultStorage();
+  await preferred.set("k", "session");
+  if (working.items.get("k") !== "session" || preferred === sandboxed) fail("Working sessionStorage not used");
+  if (defaultStorage() !== preferred) fail("Default sessionStorage adapter identity not stable");
+  if (working.items.has("__omnituum_intake_probe__")) fail("Probe key left behind");
+  pass("defaultStorage falls back to shared memory when sessionStorage throws, else uses it");
+
+  console.log("\n✅ Storage tests passed\n");
+}
+
+main();
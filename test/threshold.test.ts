@@ -0,0 +1,124 @@
+/**
+ * Threshold (k-of-n) envelope tests
+ *
+ * Verifies:
+ * - Shamir over GF(256): any k shares recover the secret, k-1 don't
+ * - 2-of-3 submission: one share per trustee, k and n recorded
+ * - Any two trustees' shares open the submission; one share doesn't
+ * - openIntakeEnvelope refuses threshold envelopes; validation checks k
+ *
+ * Usage: npx tsx test/threshold.test.ts
+ */
+
+import { submitSecureIntake, validateIntakeConfig } from "../src/index.js";
+import { openIntakeEnvelope, openThresholdEnvelope, unwrapThresholdShare } from "../src/open.js";
+import { splitSecret, combineShares } from "../src/shamir.js";
+import { nacl, toHex } from "../src/primitives.js";
+import type { IntakeConfig, OmniThresholdV1, ThresholdShare } from "../src/types.js";
+import { captureSubmissions, fail, intakeConfig, pass } from "./helpers.js";
+
+const TRUSTEES = ["alice", "bob", "carol"].map((kid) => ({ kid, keys: nacl.box.keyPair() }));
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Shamir
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const secret = nacl.randomBytes(32);
+  const shares = splitSecret(secret, 3, 5);
+  for (const subset of [[0, 1, 2], [4, 2, 0], [1, 3, 4], [0, 1, 2, 3, 4]]) {
+    const recovered = combineShares(subset.map((i) => shares[i]));
+    if (toHex(recovered) !== toHex(secret)) fail(`Shares ${subset} did not recover the secret`);
+  }
+  if (toHex(combineShares([shares[0], shares[3]])) === toHex(secret)) fail("Two of three shares recovered the secret");
+  if (toHex(combineShares(splitSecret(secret, 1, 1))) !== toHex(secret)) fail("1-of-1 split failed");
+  pass("Any k shares recover the secret, k-1 don't");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Submission
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const config = intakeConfig(
+    {
+      trustees: TRUSTEES.map(({ kid, keys }) => ({ kid, x25519PubHex: toHex(keys.publicKey), kyberPubB64: "" })),
+      threshold: 2,
+    },
+    { attemptHybrid: false }
+  );
+
+  const sent = captureSubmissions();
+
+  const result = await submitSecureIntake({ report: "RCE in the upload handler" }, config);
+  if (!result.ok) fail(`Submission failed: ${JSON.stringify(result)}`);
+  const wire = sent[0];
+  const inner = JSON.parse(wire.encrypted) as OmniThresholdV1;
+  if (inner.v !== "omnituum.threshold.v1" || inner.k !== 2 || inner.n !== 3 || inner.shares.length !== 3) {
+    fail(`Unexpected inner envelope: ${wire.encrypted}`);
+  }
+  if (inner.shares.map((s) => `${s.kid}:${s.index}`).join() !== "alice:1,bob:2,carol:3" || wire.kid !== undefined) {
+    fail(`Unexpected share wraps: ${JSON.stringify(inner.shares.map((s) => [s.kid, s.index]))}`);
+  }
+  pass("2-of-3 envelope: one share wrapped per trustee, k and n recorded");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Combine and open
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const trusteeShares: ThresholdShare[] = [];
+  for (const { kid, keys } of TRUSTEES) {
+    const share = await unwrapThresholdShare(wire, { keys: [{ kid, x25519SecHex: toHex(keys.secretKey) }] });
+    if (share.kid !== kid) fail(`Wrong share for ${kid}: ${share.kid}`);
+    trusteeShares.push(share);
+  }
+
+  for (const pair of [[0, 1], [1, 2], [2, 0]]) {
+    const opened = await openThresholdEnvelope(wire, pair.map((i) => trusteeShares[i]));
+    if (opened.payload.report !== "RCE in the upload handler" || !opened.idMatches || !opened.pqcMatches) {
+      fail(`Open with shares ${pair} failed: ${JSON.stringify(opened)}`);
+    }
+    if (opened.threshold?.k !== 2 || opened.threshold.trustees.length !== 2 || opened.kid !== undefined) {
+      fail(`Unexpected threshold info: ${JSON.stringify(opened.threshold)}`);
+    }
+  }
+  pass("Any two trustees' shares open the submission");
+
+  const expectThrow = async (label: string, fn: () => Promise<unknown>) => {
+    try {
+      await fn();
+    } catch {
+      return;
+    }
+    fail(label);
+  };
+  await expectThrow("One share opened the envelope", () => openThresholdEnvelope(wire, [trusteeShares[0]]));
+  await expectThrow("Repeated share counted twice", () =>
+    openThresholdEnvelope(wire, [trusteeShares[0], trusteeShares[0]])
+  );
+  const forged = { ...trusteeShares[1], share: trusteeShares[2].share };
+  await expectThrow("Corrupted share accepted", () => openThresholdEnvelope(wire, [trusteeShares[0], forged]));
+  await expectThrow("Single key opened a threshold envelope", () =>
+    openIntakeEnvelope(wire, { x25519SecHex: toHex(TRUSTEES[0].keys.secretKey) })
+  );
+  await expectThrow("Outsider unwrapped a share", () =>
+    unwrapThresholdShare(wire, { x25519SecHex: toHex(nacl.box.keyPair().secretKey) })
+  );
+  pass("Below threshold, repeated, corrupted or outsider shares are rejected");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Validation
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const tooHigh = { ...config, publicKeys: { ...config.publicKeys, threshold: 4 } } as IntakeConfig;
+  const issues = validateIntakeConfig(tooHigh).issues.map((i) => `${i.path}:${i.code}`).join(" ");
+  if (issues !== "publicKeys.threshold:invalid_threshold") fail(`Unexpected validation issues: ${issues}`);
+  if (!validateIntakeConfig(config).valid) fail("Valid threshold config flagged");
+  const rejected = await submitSecureIntake({ report: "unopenable" }, tooHigh);
+  if (rejected.ok || rejected.code !== "public_key_invalid") {
+    fail(`Expected public_key_invalid for k > n, got ${JSON.stringify(rejected)}`);
+  }
+  pass("Threshold outside 1..n is flagged and blocks submission");
+
+  console.log("\n✅ Threshold tests passed\n");
+}
+
+main();
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for envelope delivery (retry, timeout, abort)
+ *
+ * Verifies:
+ * - 5xx, 429 and network errors are retried with the same body; 4xx is not
+ * - Full-jitter backoff stays within [0, min(maxDelayMs, base·2^(n-1))]
+ * - Retry-After is honored, and surfaced instead of waited on when it
+ *   exceeds maxDelayMs
+ * - Per-attempt timeouts (also while reading the body) report
+ *   network_error with timedOut; caller aborts report aborted
+ *
+ * Usage: npx tsx test/transport.test.ts
+ */
+
+import { deliverEnvelope } from "../src/transport.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+const ENDPOINT = "https://example.org/api/intake";
+const BODY = JSON.stringify({ v: "loggie.intake.v1", id: "a".repeat(64), encrypted: "{}" });
+
+type Reply = Response | "network" | "hang" | "hang-body";
+
+/** Stub fetch with a scripted reply per attempt; records request bodies. */
+function stubFetch(replies: Reply[]): string[] {
+  const bodies: string[] = [];
+  globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    bodies.push(String(init?.body));
+    const reply = replies[Math.min(bodies.length, replies.length) - 1];
+    const signal = init?.signal;
+    const onAbort = (reject: (err: unknown) => void) =>
+      signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+    if (reply === "network") throw new TypeError("Failed to fetch");
+    if (reply === "hang") return new Promise<Response>((_, reject) => onAbort(reject));
+    if (reply === "hang-body") {
+      return {
+        status: 201,
+        headers: new Headers(),
+        json: () => new Promise((_, reject) => onAbort(reject)),
+      } as unknown as Response;
+    }
+    return reply;
+  }) as typeof fetch;
+  return bodies;
+}
+
+const ok = () => new Response(JSON.stringify({ ok: true, id: "a".repeat(64), status: "created" }), { status: 201 });
+const status = (code: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify({ error: `HTTP ${code}` }), { status: code, headers });
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: What gets retried
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const retry = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+  let bodies = stubFetch([status(503), "network", ok()]);
+  const recovered = await deliverEnvelope(ENDPOINT, BODY, { retry });
+  if (!recovered.ok || bodies.length !== 3 || bodies.some((b) => b !== BODY)) {
+    fail(`5xx/network retry: ${JSON.stringify(recovered)}, ${bodies.length} attempts`);
+  }
+
+  bodies = stubFetch([status(400)]);
+  const client = await deliverEnvelope(ENDPOINT, BODY, { retry });
+  if (client.ok || client.code !== "client_error" || client.status !== 400 || bodies.length !== 1) {
+    fail(`4xx retried: ${JSON.stringify(client)}`);
+  }
+
+  bodies = stubFetch([status(502)]);
+  const exhausted = await deliverEnvelope(ENDPOINT, BODY, { retry });
+  if (exhausted.ok || exhausted.code !== "server_error" || bodies.length !== 3) {
+    fail(`Expected server_error after 3 attempts: ${JSON.stringify(exhausted)}`);
+  }
+
+  bodies = stubFetch([status(503)]);
+  await deliverEnvelope(ENDPOINT, BODY);
+  if (bodies.length !== 1) fail("Retried without a retry policy");
+  pass("5xx, 429 and network errors retry with the same body; 4xx and no-policy don't");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Full-jitter backoff bounds
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const random = Math.random;
+  const timeout = globalThis.setTimeout;
+  const delays: number[] = [];
+  globalThis.setTimeout = ((fn: () => void, ms?: number) => {
+    delays.push(ms ?? 0);
+    return timeout(fn, 0);
+  }) as typeof setTimeout;
+
+  const jitter = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 300 };
+  Math.random = () => 0.999999;
+  stubFetch([status(503)]);
+  await deliverEnvelope(ENDPOINT, BODY, { retry: jitter });
+  const ceilings = [100, 200, 300, 300];
+  if (delays.length !== 4 || delays.some((d, i) => d > ceilings[i] || d < ceilings[i] * 0.99)) {
+    fail(`Backoff ceilings: ${delays}`);
+  }
+  delays.length = 0;
+  Math.random = () => 0;
+  stubFetch([status(503)]);
+  await deliverEnvelope(ENDPOINT, BODY, { retry: jitter });
+  if (delays.some((d) => d !== 0)) fail(`Full jitter should allow 0: ${delays}`);
+  pass("Backoff is random in [0, min(maxDelayMs, base·2^(n-1))]");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Retry-After
+  // ═════════════════════════════════════════════════════════════════════════
+
+  delays.length = 0;
+  bodies = stubFetch([status(429, { "Retry-After": "0.25" }), ok()]);
+  const afterWait = await deliverEnvelope(ENDPOINT, BODY, { retry: jitter });
+  if (!afterWait.ok || bodies.length !== 2 || delays[0] !== 250) {
+    fail(`Retry-After not honored: ${delays}`);
+  }
+
+  bodies = stubFetch([status(429, { "Retry-After": "60" })]);
+  const tooLong = await deliverEnvelope(ENDPOINT, BODY, { retry: jitter });
+  if (tooLong.ok || tooLong.code !== "rate_limited" || tooLong.retryAfterMs !== 60000 || bodies.length !== 1) {
+    fail(`Long Retry-After should be surfaced: ${JSON.stringify(tooLong)}`);
+  }
+  pass("Retry-After waits when within maxDelayMs, surfaces rate_limited otherwise");
+
+  Math.random = random;
+  globalThis.setTimeout = timeout;
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Timeout vs caller abort
+  // ═════════════════════════════════════════════════════════════════════════
+
+  bodies = stubFetch(["hang"]);
+  const timedOut = await deliverEnvelope(ENDPOINT, BODY, { timeoutMs: 20, retry: { maxAttempts: 2, baseDelayMs: 1 } });
+  if (timedOut.ok || timedOut.code !== "network_error" || !timedOut.timedOut || bodies.length !== 2) {
+    fail(`Expected timed-out network_error after 2 attempts: ${JSON.stringify(timedOut)}`);
+  }
+
+  stubFetch(["hang-body"]);
+  const bodyTimeout = await deliverEnvelope(ENDPOINT, BODY, { timeoutMs: 20 });
+  if (bodyTimeout.ok || bodyTimeout.code !== "network_error" || !bodyTimeout.timedOut) {
+    fail(`Timeout during body read misreported: ${JSON.stringify(bodyTimeout)}`);
+  }
+
+  const controller = new AbortController();
+  stubFetch(["hang"]);
+  setTimeout(() => controller.abort(), 10);
+  const aborted = await deliverEnvelope(ENDPOINT, BODY, { signal: controller.signal, timeoutMs: 5000 });
+  if (aborted.ok || aborted.code !== "aborted") fail(`Caller abort misreported: ${JSON.stringify(aborted)}`);
+
+  const duringBackoff = new AbortController();
+  bodies = stubFetch([status(503)]);
+  setTimeout(() => duringBackoff.abort(), 20);
+  const backoffAbort = await deliverEnvelope(ENDPOINT, BODY, {
+    signal: duringBackoff.signal,
+    retry: { maxAttempts: 5, baseDelayMs: 5000, maxDelayMs: 5000 },
+  });
+  if (backoffAbort.ok || backoffAbort.code !== "aborted" || bodies.length !== 1) {
+    fail(`Abort during backoff: ${JSON.stringify(backoffAbort)}`);
+  }
+
+  bodies = stubFetch([ok()]);
+  const preAborted = await deliverEnvelope(ENDPOINT, BODY, { signal: AbortSignal.abort() });
+  if (preAborted.ok || preAborted.code !== "aborted" || bodies.length !== 0) fail("Pre-aborted signal still fetched");
+  pass("Timeouts (fetch or body read) are timedOut network errors; caller aborts are aborted");
+
+  console.log("\n✅ Transport tests passed\n");
+}
+
+main();
@@ -0,0 +1,140 @@
+/**
+ * Config validation and fingerprint pinning tests
+ *
+ * Verifies:
+ * - Truncated X25519 / Kyber keys and bad endpoints are reported
+ * - publicKeyFingerprint is checked by validateIntakeConfig
+ * - submitSecureIntake refuses to encrypt to a key that doesn't match the pin
+ * - On submit, a mis-sized Kyber key downgrades to X25519-only (blocked
+ *   only with requireKyber)
+ *
+ * Usage: npx tsx test/validate.test.ts
+ */
+
+import {
+  validateIntakeConfig,
+  computePublicKeyFingerprint,
+  submitSecureIntake,
+  createMemoryStorage,
+} from "../src/index.js";
+import { b64, nacl, toHex } from "../src/primitives.js";
+import type { DowngradeEvent, IntakeConfig } from "../src/types.js";
+
+function fail(msg: string): never {
+  console.error(`✘ ${msg}`);
+  process.exit(1);
+}
+
+function pass(msg: string): void {
+  console.log(`✓ ${msg}`);
+}
+
+const KEYS = {
+  x25519PubHex: toHex(nacl.box.keyPair().publicKey),
+  kyberPubB64: b64(nacl.randomBytes(1568)),
+};
+
+const BASE: IntakeConfig = {
+  endpoint: "/api/intake",
+  publicKeys: KEYS,
+  canonicalize: (p) => ({ kind: "test", ...(p as object) }),
+};
+
+function issueCodes(config: IntakeConfig): string[] {
+  return validateIntakeConfig(config).issues.map((issue) => issue.code);
+}
+
+async function main() {
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Key and endpoint checks
+  // ═════════════════════════════════════════════════════════════════════════
+
+  if (!validateIntakeConfig(BASE).valid) fail(`Valid config rejected: ${JSON.stringify(issueCodes(BASE))}`);
+  pass("Valid config (relative endpoint, Kyber-1024 key) accepted");
+
+  const truncated = issueCodes({ ...BASE, publicKeys: { ...KEYS, x25519PubHex: KEYS.x25519PubHex.slice(0, 60) } });
+  if (!truncated.includes("invalid_x25519_key")) fail("Truncated X25519 key not reported");
+  pass("Truncated X25519 key reported");
+
+  const shortKyber = issueCodes({ ...BASE, publicKeys: { ...KEYS, kyberPubB64: b64(nacl.randomBytes(1184)) } });
+  if (!shortKyber.includes("invalid_kyber_key")) fail("Kyber-768-sized key accepted as Kyber-1024");
+  if (issueCodes({ ...BASE, kyberParameterSet: "kyber768", publicKeys: { ...KEYS, kyberPubB64: b64(nacl.randomBytes(1184)) } }).length) {
+    fail("Kyber-768 key rejected with kyberParameterSet: kyber768");
+  }
+  pass("Kyber key length checked against kyberParameterSet");
+
+  if (!issueCodes({ ...BASE, endpoint: "http://example.org/api" }).includes("insecure_endpoint")) {
+    fail("Plain-http endpoint not reported");
+  }
+  if (!issueCodes({ ...BASE, endpoint: "" }).includes("invalid_endpoint")) fail("Empty endpoint not reported");
+  pass("Endpoint URL checked");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Fingerprint pinning
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const fingerprint = computePublicKeyFingerprint(KEYS);
+  if (!validateIntakeConfig({ ...BASE, publicKeyFingerprint: fingerprint.toUpperCase() }).valid) {
+    fail("Matching fingerprint rejected");
+  }
+  const swapped = { ...KEYS, x25519PubHex: toHex(nacl.box.keyPair().publicKey) };
+  if (!issueCodes({ ...BASE, publicKeys: swapped, publicKeyFingerprint: fingerprint }).includes("fingerprint_mismatch")) {
+    fail("Swapped key not detected");
+  }
+  pass("publicKeyFingerprint detects a swapped key");
+
+  const realFetch = globalThis.fetch;
+  let fetched = false;
+  globalThis.fetch = (async () => {
+    fetched = true;
+    return new Response("{}", { status: 500 });
+  }) as typeof fetch;
+
+  const result = await submitSecureIntake(
+    { message: "hello" },
+    { ...BASE, publicKeys: swapped, publicKeyFingerprint: fingerprint, attemptHybrid: false, storage: createMemoryStorage(), rateLimit: false }
+  );
+  globalThis.fetch = realFetch;
+
+  if (result.ok || result.code !== "public_key_invalid" || result.reason !== "fingerprint_mismatch") {
+    fail(`Expected public_key_invalid, got ${JSON.stringify(result)}`);
+  }
+  if (fetched) fail("Envelope sent despite fingerprint mismatch");
+  pass("Submit refuses to encrypt on fingerprint mismatch");
+
+  // ═════════════════════════════════════════════════════════════════════════
+  // Test: Mis-sized Kyber key on submit
+  // ═════════════════════════════════════════════════════════════════════════
+
+  const sent: Array<{ pqcUsed: boolean }> = [];
+  globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const envelope = JSON.parse(String(init?.body)) as { id: string; pqcUsed: boolean };
+    sent.push(envelope);
+    return new Response(JSON.stringify({ ok: true, id: envelope.id, status: "created" }), { status: 201 });
+  }) as typeof fetch;
+  const downgrades: DowngradeEvent[] = [];
+  const shortKyberConfig: IntakeConfig = {
+    ...BASE,
+    publicKeys: { ...KEYS, kyberPubB64: b64(nacl.randomBytes(1184)) },
+    storage: createMemoryStorage(),
+    rateLimit: false,
+    onDowngrade: (event) => downgrades.push(event),
+  };
+
+  const downgraded = await submitSecureIntake({ message: "short kyber" }, shortKyberConfig);
+  if (!downgraded.ok || sent.length !== 1 || sent[0].pqcUsed) fail(`Expected an X25519-only submission: ${JSON.stringify(downgraded)}`);
+  if (downgrades.length !== 1 || downgrades[0].reason !== "invalid_kyber_key") {
+    fail(`Expected an invalid_kyber_key downgrade: ${JSON.stringify(downgrades)}`);
+  }
+
+  const strict = await submitSecureIntake({ message: "strict" }, { ...shortKyberConfig, requireKyber: true });
+  if (strict.ok || strict.code !== "public_key_invalid" || strict.reason !== "malformed" || sent.length !== 1) {
+    fail(`Expected public_key_invalid with requireKyber: ${JSON.stringify(strict)}`);
+  }
+  globalThis.fetch = realFetch;
+  pass("A mis-sized Kyber key downgrades on submit, and blocks it only with requireKyber");
+
+  console.log("\n✅ Config validation tests passed\n");
+}
+
+main();
@@ -3,7 +3,10 @@ import { defineConfig } from 'tsup';
 export default defineConfig({
   entry: [
     'src/index.ts',
+    'src/open.ts',
     'src/presets/pilot-access.ts',
+    'src/pow-worker.ts',
+    'src/encrypt-worker.ts',
   ],
   format: ['cjs', 'esm'],
   dts: true,